@@ -0,0 +1,175 @@
+/**
+ * Vue Devtools Integration
+ * ------------------------
+ * Registers a "Vuex Mutex" timeline layer and custom inspector for one store
+ * (`devtools: true`, Vue 3 / Vuex 4). `@vue/devtools-api` ships with Vuex 4 and is
+ * only loaded once the store is installed into an app.
+ *
+ * - Timeline: every lifecycle event, grouped by dispatch id (wait/run/total durations on 'finish').
+ * - Inspector: one node per lock key with its running and queued dispatches and
+ *   the latest dedupe decisions.
+ *
+ * @internal
+ */
+
+import type {CustomInspectorNode, CustomInspectorState, DevtoolsPluginApi, InspectorNodeTag, TimelineEvent} from '@vue/devtools-api'
+import type {DispatchSnapshot, MutexEvent, MutexEventOf, MutexSnapshot} from './index'
+
+const PLUGIN_ID = 'iits.vuex-mutex'
+const LAYER_ID = 'vuex-mutex'
+const INSPECTOR_ID = 'vuex-mutex'
+/** Inspector node of the dispatches that run without a lock key. */
+const UNLOCKED_NODE_ID = '(unlocked)'
+/** Dedupe decisions kept for the inspector (oldest dropped first). */
+const RECENT_DEDUPES = 50
+
+// Tailwind palette, like the Vuex layers
+const COLOR_AMBER_500 = 0xf59e0b
+const COLOR_SKY_500 = 0x0ea5e9
+const COLOR_SLATE_500 = 0x64748b
+const COLOR_WHITE = 0xffffff
+
+/** What the devtools read from a store. */
+export type DevtoolsSource = {
+  snapshot: () => MutexSnapshot
+  /** Registers a listener for the lifecycle events of the store; returns an unsubscribe function. */
+  subscribe: (listener: (event: MutexEvent) => void) => () => void
+}
+
+/**
+ * Registers the timeline layer and inspector for `app`. Resolves once `@vue/devtools-api`
+ * is loaded; `onAttached` is called when the devtools attach, which may be later (their
+ * hook can appear after the app is set up) or never (e.g. in production builds).
+ */
+export async function setupMutexDevtools(app: unknown, source: DevtoolsSource, onAttached: () => void): Promise<void> {
+  const {setupDevtoolsPlugin} = await import('@vue/devtools-api')
+  setupDevtoolsPlugin(
+    {
+      id: PLUGIN_ID,
+      app: app as any,
+      label: 'Vuex Mutex',
+      packageName: '@iits-consulting/vuex-mutex',
+      homepage: 'https://github.com/iits-consulting/iits-vuex-mutex#readme',
+    },
+    (api) => {
+      registerTimeline(api, source)
+      registerInspector(api, app, source)
+      onAttached()
+    }
+  )
+}
+
+function registerTimeline(api: DevtoolsPluginApi<any>, source: DevtoolsSource) {
+  api.addTimelineLayer({id: LAYER_ID, label: 'Vuex Mutex', color: COLOR_SKY_500})
+  source.subscribe((event) => {
+    api.addTimelineEvent({layerId: LAYER_ID, event: toTimelineEvent(event, api.now())})
+  })
+}
+
+/** One timeline entry per lifecycle event; entries of a dispatch share its id as group. */
+function toTimelineEvent(event: MutexEvent, time: number): TimelineEvent {
+  const {type, dispatchId, fullType, at, ...data} = event
+  const logType = type === 'error' || (type === 'finish' && event.status !== 'ok') ? 'error' : type === 'dedupe' || type === 'stuck' || type === 'retry' ? 'warning' : 'default'
+  if (type === 'finish') {
+    Object.assign(data, {waitMillis: duration(event.waitMillis, 'Waiting for the lock'), runMillis: duration(event.runMillis, 'Running'), totalMillis: duration(event.totalMillis, 'Total')})
+  }
+  return {time, title: fullType, subtitle: `#${dispatchId} ${type}`, groupId: dispatchId, logType, data}
+}
+
+/** Duration value as the devtools display it (like the Vuex action layer). */
+function duration(millis: number | null, tooltip: string) {
+  return millis === null ? null : {_custom: {type: 'duration', display: `${millis}ms`, tooltip, value: millis}}
+}
+
+function registerInspector(api: DevtoolsPluginApi<any>, app: unknown, source: DevtoolsSource) {
+  api.addInspector({id: INSPECTOR_ID, label: 'Vuex Mutex', icon: 'lock', treeFilterPlaceholder: 'Filter lock keys...'})
+
+  // Lock keys stay listed once used, so an idle key does not vanish from the tree
+  const knownKeys = new Set<string>()
+  const recentDedupes: MutexEventOf<'dedupe'>[] = []
+
+  source.subscribe((event) => {
+    knownKeys.add(event.mutexKey ?? UNLOCKED_NODE_ID)
+    if (event.type === 'dedupe') {
+      recentDedupes.push(event)
+      if (recentDedupes.length > RECENT_DEDUPES) {
+        recentDedupes.shift()
+      }
+    }
+    if (event.type === 'queued' || event.type === 'start' || event.type === 'finish' || event.type === 'dedupe') {
+      api.sendInspectorTree(INSPECTOR_ID)
+      api.sendInspectorState(INSPECTOR_ID)
+    }
+  })
+
+  api.on.getInspectorTree((payload) => {
+    if (payload.app !== app || payload.inspectorId !== INSPECTOR_ID) {
+      return
+    }
+    const snapshot = source.snapshot()
+    const filter = payload.filter?.toLowerCase()
+    payload.rootNodes = [...knownKeys]
+      .filter((key) => !filter || key.toLowerCase().includes(filter))
+      .map((key) => toInspectorNode(key, dispatchesOf(snapshot, key)))
+  })
+
+  api.on.getInspectorState((payload) => {
+    if (payload.app !== app || payload.inspectorId !== INSPECTOR_ID) {
+      return
+    }
+    const snapshot = source.snapshot()
+    const {running, queued} = dispatchesOf(snapshot, payload.nodeId)
+    const dedupes = recentDedupes.filter((event) => (event.mutexKey ?? UNLOCKED_NODE_ID) === payload.nodeId)
+    payload.state = toInspectorState(snapshot.at, running, queued, dedupes, snapshot.inFlightKeys)
+  })
+}
+
+function dispatchesOf(snapshot: MutexSnapshot, nodeId: string): {running: DispatchSnapshot[]; queued: DispatchSnapshot[]} {
+  if (nodeId === UNLOCKED_NODE_ID) {
+    return {running: snapshot.unlocked, queued: []}
+  }
+  const lock = snapshot.locks.find(({mutexKey}) => mutexKey === nodeId)
+  return {running: lock?.running ?? [], queued: lock?.queued ?? []}
+}
+
+function toInspectorNode(key: string, {running, queued}: {running: DispatchSnapshot[]; queued: DispatchSnapshot[]}): CustomInspectorNode {
+  const tags: InspectorNodeTag[] = []
+  if (running.length > 0) {
+    tags.push({label: `${running.length} running`, textColor: COLOR_WHITE, backgroundColor: COLOR_SKY_500})
+  }
+  if (queued.length > 0) {
+    tags.push({label: `${queued.length} queued`, textColor: COLOR_WHITE, backgroundColor: COLOR_AMBER_500})
+  }
+  if (tags.length === 0) {
+    tags.push({label: 'idle', textColor: COLOR_WHITE, backgroundColor: COLOR_SLATE_500})
+  }
+  return {id: key, label: key === '' ? '(root)' : key, tags}
+}
+
+function toInspectorState(now: number, running: DispatchSnapshot[], queued: DispatchSnapshot[], dedupes: MutexEventOf<'dedupe'>[], inFlightKeys: string[]): CustomInspectorState {
+  const describe = (dispatch: DispatchSnapshot) => ({
+    key: `#${dispatch.dispatchId}`,
+    value: {
+      fullType: dispatch.fullType,
+      access: dispatch.access,
+      priority: dispatch.priority,
+      dedupeKey: dispatch.dedupeKey,
+      ...(dispatch.startedAt === null ? {queuedSince: `${now - dispatch.queuedAt} ms`} : {runningSince: `${now - dispatch.startedAt} ms`}),
+      reentrant: dispatch.reentrant,
+    },
+  })
+  const keys = new Set([...running, ...queued].map(({dedupeKey}) => dedupeKey))
+  return {
+    'lock': [{key: 'state', value: running.length > 0 ? 'locked' : 'free'}],
+    'running': running.map(describe),
+    'queued': queued.map(describe),
+    'in-flight dedupe keys': inFlightKeys.filter((key) => keys.has(key)).map((key, index) => ({key: String(index), value: key})),
+    'recent dedupe decisions': dedupes
+      .slice()
+      .reverse()
+      .map((event) => ({
+        key: `#${event.dispatchId}`,
+        value: {fullType: event.fullType, phase: event.phase, mode: event.mode, deltaMillis: event.deltaMillis, ago: `${now - event.at} ms`},
+      })),
+  }
+}
@@ -0,0 +1,376 @@
+/**
+ * Cross-Tab Coordination
+ * ----------------------
+ * Lets the tabs of an app (each with its own store and locks) share selected lock keys
+ * and their dedupe state:
+ *
+ * - Locks: through the Web Locks API when the transport provides it; otherwise through
+ *   a lease protocol over the message channel. A tab claims a lock key, waits `claimMillis`
+ *   for competing claims (the earliest claim wins, ties by tab id), then announces a lease
+ *   that it renews while it holds the key. A lease that is not renewed within `leaseMillis`
+ *   expires, so a closed or frozen tab cannot block the others for good. The lease protocol
+ *   is best-effort: a claim that takes longer than `claimMillis` to arrive is not seen.
+ * - Dedupe: a tab announces the dedupe keys it has queued or running (renewed like leases)
+ *   and when they finish, so the other tabs apply their in-flight and quick-repeat modes
+ *   to them as well.
+ *
+ * @internal
+ */
+
+import type {LockRelease} from './lock'
+
+/** Messages the tabs exchange (all carry the sender's tab id). */
+export type CrossTabMessage =
+  | {kind: 'claim'; from: string; name: string; at: number}
+  | {kind: 'withdraw'; from: string; name: string}
+  | {kind: 'lease'; from: string; name: string; leaseMillis: number}
+  | {kind: 'release'; from: string; name: string}
+  | {kind: 'in-flight'; from: string; dedupeKey: string; leaseMillis: number}
+  | {kind: 'done'; from: string; dedupeKey: string}
+
+/** The part of the Web Locks API (`navigator.locks`) the plugin uses. */
+export type WebLockManager = {
+  request: (name: string, options: {signal?: AbortSignal}, callback: (lock: unknown) => Promise<void>) => Promise<unknown>
+}
+
+/**
+ * How the tabs talk to each other: a message channel (delivering to all other tabs, not
+ * to the sender) and optionally the Web Locks API. See `createBroadcastTransport` and,
+ * for tests, `createMemoryTransportHub` in `@iits-consulting/vuex-mutex/testing`.
+ */
+export type CrossTabTransport = {
+  postMessage: (message: CrossTabMessage) => void
+  /** Returns a function that removes the listener. */
+  subscribe: (listener: (message: CrossTabMessage) => void) => () => void
+  /** Without it, locks use leases over the message channel. */
+  locks?: WebLockManager
+  /** Releases the channel; called when the cross-tab mode of the store is closed. */
+  close?: () => void
+}
+
+/** Prefix of the Web Locks names, so they do not collide with other locks of the app. */
+const WEB_LOCK_PREFIX = 'vuex-mutex:'
+
+/**
+ * Transport of the browser: a `BroadcastChannel` named `channelName` plus `navigator.locks`
+ * if available. Returns null outside a browser: Node 18+ has a `BroadcastChannel` as well,
+ * which would connect the stores of all SSR requests (and keep the process alive).
+ */
+export function createBroadcastTransport(channelName = 'vuex-mutex'): CrossTabTransport | null {
+  if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') {
+    return null
+  }
+  const channel = new BroadcastChannel(channelName)
+  const locks = typeof navigator !== 'undefined' ? (navigator as {locks?: WebLockManager}).locks : undefined
+  return {
+    postMessage: (message) => channel.postMessage(message),
+    subscribe: (listener) => {
+      const onMessage = (event: MessageEvent<CrossTabMessage>) => listener(event.data)
+      channel.addEventListener('message', onMessage)
+      return () => channel.removeEventListener('message', onMessage)
+    },
+    locks,
+    close: () => channel.close(),
+  }
+}
+
+export type CrossTabClient = {
+  /** Acquires `lockKey` across tabs; rejects with `signal.reason` when aborted while waiting. */
+  acquire: (lockKey: string, signal?: AbortSignal) => Promise<LockRelease>
+  /** Announces `dedupeKey` as in flight in this tab until `process` settles. */
+  trackInFlight: (dedupeKey: string, process: Promise<unknown>) => void
+  /** Resolves (with undefined) once no other tab has `dedupeKey` in flight; undefined if none has. */
+  inFlightElsewhere: (dedupeKey: string) => Promise<undefined> | undefined
+  /**
+   * Announces the held leases and in-flight dedupe keys as released, stops listening and
+   * closes the transport. Pending acquisitions then complete without the other tabs.
+   */
+  close: () => void
+}
+
+type Clock = {
+  now: () => number
+  setTimeout: (callback: () => void, millis: number) => unknown
+  clearTimeout: (handle: unknown) => void
+}
+
+/** Expiry times by sender tab, per lock key (leases, claims) or dedupe key (in-flight marks). */
+type Marks = Map<string, Map<string, number>>
+
+/**
+ * @param onRemoteDone Called when another tab finished a dispatch with `dedupeKey` (quick-repeat window).
+ */
+export function createCrossTabClient(
+  transport: CrossTabTransport,
+  options: {clock: Clock; leaseMillis: number; claimMillis: number; onRemoteDone: (dedupeKey: string) => void}
+): CrossTabClient {
+  const {clock, leaseMillis, claimMillis} = options
+  const tabId = typeof crypto !== 'undefined' && crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).slice(2)
+
+  const leases: Marks = new Map()
+  const claims: Marks = new Map()
+  /** Claim time per "tab id\nlock key" of the claims received (earlier claims win). */
+  const claimTimes = new Map<string, number>()
+  const remoteInFlight: Marks = new Map()
+  const heldLeases = new Set<string>()
+  const localInFlight = new Map<string, number>()
+
+  /** Re-checked on every message and when a mark expires. */
+  const waiters = new Set<() => void>()
+  let expiryTimer: unknown = null
+  let renewTimer: unknown = null
+  let closed = false
+
+  const post = (message: CrossTabMessage) => {
+    if (!closed) {
+      transport.postMessage(message)
+    }
+  }
+
+  const setMark = (marks: Marks, name: string, from: string, expiresAt: number) => {
+    let byTab = marks.get(name)
+    if (!byTab) {
+      byTab = new Map()
+      marks.set(name, byTab)
+    }
+    byTab.set(from, expiresAt)
+  }
+  const deleteMark = (marks: Marks, name: string, from: string) => {
+    const byTab = marks.get(name)
+    byTab?.delete(from)
+    if (byTab?.size === 0) {
+      marks.delete(name)
+    }
+  }
+  /** Live marks of other tabs (expired ones are dropped). */
+  const liveMarks = (marks: Marks, name: string): [string, number][] => {
+    const byTab = marks.get(name)
+    if (!byTab) {
+      return []
+    }
+    const now = clock.now()
+    for (const [from, expiresAt] of byTab) {
+      if (expiresAt <= now) {
+        byTab.delete(from)
+      }
+    }
+    if (byTab.size === 0) {
+      marks.delete(name)
+    }
+    return [...byTab]
+  }
+
+  const recheck = () => {
+    for (const waiter of [...waiters]) {
+      waiter()
+    }
+    scheduleExpiryCheck()
+  }
+
+  /** While someone waits, re-checks when the next mark expires (a tab stopped renewing). */
+  function scheduleExpiryCheck() {
+    if (expiryTimer) {
+      clock.clearTimeout(expiryTimer)
+      expiryTimer = null
+    }
+    if (waiters.size === 0) {
+      return
+    }
+    const now = clock.now()
+    const expiries = [leases, claims, remoteInFlight].flatMap((marks) => [...marks.values()].flatMap((byTab) => [...byTab.values()])).filter((expiresAt) => expiresAt > now)
+    if (expiries.length > 0) {
+      expiryTimer = clock.setTimeout(recheck, Math.min(...expiries) - now)
+    }
+  }
+
+  /** Resolves once `until()` holds (or the client is closed); rejects with `signal.reason` when aborted first. */
+  const waitUntil = (until: () => boolean, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      const condition = () => closed || until()
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+      if (condition()) {
+        resolve()
+        return
+      }
+      const waiter = () => {
+        if (condition()) {
+          done()
+          resolve()
+        }
+      }
+      const onAbort = () => {
+        done()
+        reject(signal!.reason)
+      }
+      const done = () => {
+        waiters.delete(waiter)
+        signal?.removeEventListener('abort', onAbort)
+      }
+      waiters.add(waiter)
+      signal?.addEventListener('abort', onAbort, {once: true})
+      scheduleExpiryCheck()
+    })
+
+  const sleep = (millis: number, signal?: AbortSignal) => {
+    let elapsed = false
+    clock.setTimeout(() => {
+      elapsed = true
+      recheck()
+    }, millis)
+    return waitUntil(() => elapsed, signal)
+  }
+
+  /** Renews the leases held and the dedupe keys in flight while there are any. */
+  const updateRenewal = () => {
+    const needed = heldLeases.size > 0 || localInFlight.size > 0
+    if (needed && !renewTimer) {
+      const renew = () => {
+        heldLeases.forEach((name) => post({kind: 'lease', from: tabId, name, leaseMillis}))
+        localInFlight.forEach((_, dedupeKey) => post({kind: 'in-flight', from: tabId, dedupeKey, leaseMillis}))
+        renewTimer = clock.setTimeout(renew, leaseMillis / 3)
+      }
+      renewTimer = clock.setTimeout(renew, leaseMillis / 3)
+    } else if (!needed && renewTimer) {
+      clock.clearTimeout(renewTimer)
+      renewTimer = null
+    }
+  }
+
+  const unsubscribe = transport.subscribe((message) => {
+    if (message.from === tabId) {
+      return
+    }
+    const now = clock.now()
+    switch (message.kind) {
+      case 'claim':
+        setMark(claims, message.name, message.from, now + 2 * claimMillis)
+        claimTimes.set(`${message.from}\n${message.name}`, message.at)
+        if (heldLeases.has(message.name)) {
+          post({kind: 'lease', from: tabId, name: message.name, leaseMillis})
+        }
+        break
+      case 'withdraw':
+        deleteMark(claims, message.name, message.from)
+        break
+      case 'lease':
+        deleteMark(claims, message.name, message.from)
+        setMark(leases, message.name, message.from, now + message.leaseMillis)
+        break
+      case 'release':
+        deleteMark(leases, message.name, message.from)
+        break
+      case 'in-flight':
+        setMark(remoteInFlight, message.dedupeKey, message.from, now + message.leaseMillis)
+        break
+      case 'done':
+        deleteMark(remoteInFlight, message.dedupeKey, message.from)
+        options.onRemoteDone(message.dedupeKey)
+        break
+    }
+    recheck()
+  })
+
+  async function acquireLease(name: string, signal?: AbortSignal): Promise<LockRelease> {
+    for (;;) {
+      await waitUntil(() => liveMarks(leases, name).length === 0, signal)
+      if (closed) {
+        return () => {}
+      }
+      const at = clock.now()
+      post({kind: 'claim', from: tabId, name, at})
+      try {
+        await sleep(claimMillis, signal)
+      } catch (error) {
+        post({kind: 'withdraw', from: tabId, name})
+        throw error
+      }
+      if (closed) {
+        return () => {}
+      }
+      const rivals = liveMarks(claims, name).filter(([from]) => {
+        const claimAt = claimTimes.get(`${from}\n${name}`) ?? Infinity
+        return claimAt < at || (claimAt === at && from < tabId)
+      })
+      if (liveMarks(leases, name).length === 0 && rivals.length === 0) {
+        heldLeases.add(name)
+        post({kind: 'lease', from: tabId, name, leaseMillis})
+        updateRenewal()
+        let released = false
+        return () => {
+          if (released) {
+            return
+          }
+          released = true
+          heldLeases.delete(name)
+          post({kind: 'release', from: tabId, name})
+          updateRenewal()
+        }
+      }
+      post({kind: 'withdraw', from: tabId, name})
+      // Let the winning claim turn into a lease (or expire) before claiming again
+      const rivalIds = rivals.map(([from]) => from)
+      await waitUntil(() => liveMarks(leases, name).length > 0 || !liveMarks(claims, name).some(([from]) => rivalIds.includes(from)), signal)
+    }
+  }
+
+  async function acquireWebLock(locks: WebLockManager, name: string, signal?: AbortSignal): Promise<LockRelease> {
+    return new Promise<LockRelease>((resolve, reject) => {
+      locks
+        .request(WEB_LOCK_PREFIX + name, {signal}, () => new Promise<void>((release) => resolve(release)))
+        .catch((error) => reject(signal?.aborted ? signal.reason : error))
+    })
+  }
+
+  return {
+    acquire: (lockKey, signal) => (transport.locks ? acquireWebLock(transport.locks, lockKey, signal) : acquireLease(lockKey, signal)),
+    trackInFlight(dedupeKey, process) {
+      if (closed) {
+        return
+      }
+      const count = localInFlight.get(dedupeKey) ?? 0
+      localInFlight.set(dedupeKey, count + 1)
+      if (count === 0) {
+        post({kind: 'in-flight', from: tabId, dedupeKey, leaseMillis})
+        updateRenewal()
+      }
+      const settle = () => {
+        if (closed) {
+          return
+        }
+        const left = localInFlight.get(dedupeKey)! - 1
+        if (left > 0) {
+          localInFlight.set(dedupeKey, left)
+          return
+        }
+        localInFlight.delete(dedupeKey)
+        post({kind: 'done', from: tabId, dedupeKey})
+        updateRenewal()
+      }
+      process.then(settle, settle)
+    },
+    inFlightElsewhere(dedupeKey) {
+      if (closed || liveMarks(remoteInFlight, dedupeKey).length === 0) {
+        return undefined
+      }
+      return waitUntil(() => liveMarks(remoteInFlight, dedupeKey).length === 0).then(() => undefined)
+    },
+    close() {
+      if (closed) {
+        return
+      }
+      heldLeases.forEach((name) => post({kind: 'release', from: tabId, name}))
+      localInFlight.forEach((_, dedupeKey) => post({kind: 'done', from: tabId, dedupeKey}))
+      closed = true
+      heldLeases.clear()
+      localInFlight.clear()
+      updateRenewal()
+      unsubscribe()
+      transport.close?.()
+      // Lets the pending waits complete; no expiry check is scheduled without waiters
+      recheck()
+    },
+  }
+}
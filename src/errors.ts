@@ -0,0 +1,172 @@
+/**
+ * Vuex Mutex Errors
+ * -----------------
+ * Errors the plugin rejects dispatches with, so callers can tell them apart
+ * from errors thrown by the actions themselves (`error instanceof VuexMutexError`).
+ */
+
+/** Base class of all errors raised by the plugin (not by the wrapped actions). */
+export class VuexMutexError extends Error {
+  /** Full action type of the affected dispatch (e.g. "deal/save"). */
+  readonly fullType: string
+
+  constructor(message: string, fullType: string) {
+    super(message)
+    this.name = new.target.name
+    this.fullType = fullType
+  }
+}
+
+/** True for errors raised by the plugin (blocked duplicates, timeouts, cancellations, …). */
+export function isVuexMutexError(error: unknown): error is VuexMutexError {
+  return error instanceof VuexMutexError
+}
+
+/** A duplicate dispatch was blocked by the 'block' dedupe mode. */
+export class DuplicateDispatchError extends VuexMutexError {
+  /** 'IN-FLIGHT' → an identical dispatch was queued or running; 'QUICK-REPEAT' → it finished shortly before. */
+  readonly phase: 'IN-FLIGHT' | 'QUICK-REPEAT'
+  readonly dedupeKey: string
+  /** Time since the last identical execution finished (null in the in-flight phase). */
+  readonly deltaMillis: number | null
+  readonly thresholdMillis: number
+
+  constructor(details: {phase: 'IN-FLIGHT' | 'QUICK-REPEAT'; fullType: string; dedupeKey: string; deltaMillis: number | null; thresholdMillis: number}) {
+    const timing = details.deltaMillis === null ? '' : ` (${details.deltaMillis} ms < ${details.thresholdMillis} ms)`
+    super(`[vuex-mutex][${details.phase}] action="${details.fullType}" → blocked duplicate${timing}`, details.fullType)
+    this.phase = details.phase
+    this.dedupeKey = details.dedupeKey
+    this.deltaMillis = details.deltaMillis
+    this.thresholdMillis = details.thresholdMillis
+  }
+}
+
+/** A queued dispatch waited longer than `maxWaitMillis` for its lock and was removed from the queue. */
+export class QueueTimeoutError extends VuexMutexError {
+  readonly dispatchId: string
+  readonly mutexKey: string
+  readonly maxWaitMillis: number
+
+  constructor(details: {dispatchId: string; fullType: string; mutexKey: string; maxWaitMillis: number}) {
+    super(`[vuex-mutex][TIMEOUT] action="${details.fullType}" → gave up waiting for mutexKey "${details.mutexKey}" after ${details.maxWaitMillis} ms`, details.fullType)
+    this.dispatchId = details.dispatchId
+    this.mutexKey = details.mutexKey
+    this.maxWaitMillis = details.maxWaitMillis
+  }
+}
+
+/** The caller's `AbortSignal` fired before the dispatch started; it was removed from the queue. */
+export class DispatchAbortedError extends VuexMutexError {
+  readonly dispatchId: string | null
+  readonly mutexKey: string | null
+  /** `signal.reason` of the caller's AbortSignal. */
+  readonly reason: unknown
+
+  constructor(details: {dispatchId: string | null; fullType: string; mutexKey: string | null; reason: unknown}) {
+    super(`[vuex-mutex][ABORTED] action="${details.fullType}" → aborted before it started`, details.fullType)
+    this.dispatchId = details.dispatchId
+    this.mutexKey = details.mutexKey
+    this.reason = details.reason
+  }
+}
+
+/**
+ * A serialized action ran longer than `maxRunMillis` and its lock was force-released
+ * (`releaseWhenStuck`). The action itself may still be running; its result is ignored.
+ */
+export class ActionStuckError extends VuexMutexError {
+  readonly dispatchId: string
+  readonly mutexKey: string
+  readonly maxRunMillis: number
+
+  constructor(details: {dispatchId: string; fullType: string; mutexKey: string; maxRunMillis: number}) {
+    super(`[vuex-mutex][STUCK] action="${details.fullType}" → still running after ${details.maxRunMillis} ms, released mutexKey "${details.mutexKey}"`, details.fullType)
+    this.dispatchId = details.dispatchId
+    this.mutexKey = details.mutexKey
+    this.maxRunMillis = details.maxRunMillis
+  }
+}
+
+/**
+ * A newer dispatch of the same dedupe key (or action) replaced this one under the 'latest'
+ * dedupe mode. Queued dispatches reject with it when `superseded: 'reject'`; with
+ * `abortSuperseded`, it is also the abort reason of a running action's signal.
+ */
+export class DispatchSupersededError extends VuexMutexError {
+  readonly dispatchId: string
+  readonly mutexKey: string
+  /** Dispatch id of the newer dispatch that replaced this one. */
+  readonly supersededBy: string
+
+  constructor(details: {dispatchId: string; fullType: string; mutexKey: string; supersededBy: string}) {
+    super(`[vuex-mutex][SUPERSEDED] action="${details.fullType}" → superseded by newer dispatch #${details.supersededBy}`, details.fullType)
+    this.dispatchId = details.dispatchId
+    this.mutexKey = details.mutexKey
+    this.supersededBy = details.supersededBy
+  }
+}
+
+/** One edge of a deadlock cycle: a dispatch waiting for a lock key, or holding it. */
+export type DeadlockStep = {
+  dispatchId: string
+  fullType: string
+  mutexKey: string
+  relation: 'waits-for' | 'holds'
+}
+
+/**
+ * Waiting for its lock would deadlock the dispatch: the lock is held by a dispatch that
+ * (directly or through its nested dispatches) waits for a lock held by this dispatch's
+ * ancestors. Raised with `deadlock: 'reject'`; the dispatch never entered the queue.
+ */
+export class DeadlockError extends VuexMutexError {
+  readonly dispatchId: string
+  readonly mutexKey: string
+  /** The cycle, starting with this dispatch and ending with the ancestor holding a contested lock. */
+  readonly cycle: DeadlockStep[]
+
+  constructor(details: {dispatchId: string; fullType: string; mutexKey: string; cycle: DeadlockStep[]}) {
+    super(`[vuex-mutex][DEADLOCK] action="${details.fullType}" → waiting for mutexKey "${details.mutexKey}" would deadlock: ${formatDeadlockCycle(details.cycle)}`, details.fullType)
+    this.dispatchId = details.dispatchId
+    this.mutexKey = details.mutexKey
+    this.cycle = details.cycle
+  }
+}
+
+/** "#05 cart/checkout waits for "user/" → #03 user/load holds "user/" → …" */
+export function formatDeadlockCycle(cycle: DeadlockStep[]): string {
+  return cycle.map(({dispatchId, fullType, mutexKey, relation}) => `#${dispatchId} ${fullType} ${relation === 'holds' ? 'holds' : 'waits for'} "${mutexKey}"`).join(' → ')
+}
+
+/** A dispatch that was still queued or running when `whenIdle` gave up. */
+export type PendingDispatch = {
+  dispatchId: string
+  fullType: string
+  mutexKey: string | null
+  queuedAt: number
+  /** null → still waiting for its lock. */
+  startedAt: number | null
+}
+
+/**
+ * `whenIdle` timed out while dispatches were still queued or running. Not tied to a single
+ * dispatch: `fullType` is empty, `pending` lists the dispatches that kept the store busy.
+ */
+export class IdleTimeoutError extends VuexMutexError {
+  /** Namespace `whenIdle` waited for (null → the whole store). */
+  readonly namespace: string | null
+  readonly timeoutMillis: number
+  readonly pending: PendingDispatch[]
+
+  /** `at`: when it gave up (same clock as `queuedAt`/`startedAt`). */
+  constructor(details: {namespace: string | null; timeoutMillis: number; pending: PendingDispatch[]; at: number}) {
+    const scope = details.namespace === null ? 'store' : `namespace="${details.namespace}"`
+    const pending = details.pending.map(({dispatchId, fullType, queuedAt, startedAt}) =>
+      startedAt === null ? `#${dispatchId} ${fullType} (queued ${details.at - queuedAt} ms)` : `#${dispatchId} ${fullType} (running ${details.at - startedAt} ms)`
+    )
+    super(`[vuex-mutex][IDLE-TIMEOUT] ${scope} → still busy after ${details.timeoutMillis} ms: ${pending.join(', ') || 'debounced/throttled runs pending'}`, '')
+    this.namespace = details.namespace
+    this.timeoutMillis = details.timeoutMillis
+    this.pending = details.pending
+  }
+}
@@ -1,57 +1,527 @@
-/* eslint-disable no-console */
-
 /**
  * Vuex Mutex Plugin
  * -----------------
  * Ensures that Vuex actions within the same module (namespace) run sequentially
  * (no parallel execution within a module) and deduplicates duplicate dispatches
- * (in-flight + quick-repeat).
+ * (in-flight + quick-repeat). The lock scope is configurable per action
+ * (namespace, action, lock group or payload-derived key).
  */
 
 import type {DispatchOptions, Plugin, Store} from 'vuex'
-import {Mutex} from 'async-mutex'
+import {type DevtoolsSource, setupMutexDevtools} from './devtools'
+import {createBroadcastTransport, createCrossTabClient, type CrossTabClient, type CrossTabTransport} from './distributed'
+import {defaultMaxConcurrent, DispatchLock, type LockAccess, type LockRelease, type LockRequest} from './lock'
+import {createMetricsRecorder, type MetricsRecorder, type MutexMetrics} from './metrics'
+import {type ChromeTrace, createTraceRecorder, type TraceEntry, type TraceRecorder} from './trace'
+import {createConsoleLogger, createLogWrite, type LogFields, type LogLevel, type LogWrite, type VuexMutexLogger} from './logger'
+import {
+  ActionStuckError,
+  DeadlockError,
+  type DeadlockStep,
+  DispatchAbortedError,
+  DispatchSupersededError,
+  DuplicateDispatchError,
+  formatDeadlockCycle,
+  IdleTimeoutError,
+  isVuexMutexError,
+  QueueTimeoutError,
+} from './errors'
+
+export type {LockAccess} from './lock'
+export {createBroadcastTransport} from './distributed'
+export type {CrossTabMessage, CrossTabTransport, WebLockManager} from './distributed'
+export {createConsoleLogger, createPlainLogger} from './logger'
+export type {LogFields, LogLevel, VuexMutexLogger} from './logger'
+export type {DispatchMetrics, HistogramSnapshot, MutexMetrics} from './metrics'
+export type {ChromeTrace, ChromeTraceEvent, TraceEntry} from './trace'
+export {VuexMutexError, isVuexMutexError, DuplicateDispatchError, QueueTimeoutError, DispatchAbortedError, ActionStuckError, DispatchSupersededError, DeadlockError, IdleTimeoutError} from './errors'
+export type {DeadlockStep, PendingDispatch} from './errors'
+
+declare module 'vuex' {
+  interface DispatchOptions {
+    /**
+     * Queue priority of this dispatch (higher is served first; overrides the rule's `priority`).
+     * Only affects dispatches waiting for a lock; a running action is never preempted.
+     */
+    priority?: number
+    /** Maximum time this dispatch waits for its lock (overrides the rule's `maxWaitMillis`). */
+    maxWaitMillis?: number
+    /** Aborting cancels the dispatch while it waits for its lock (rejects with `DispatchAbortedError`). */
+    signal?: AbortSignal
+  }
+}
 
 //#region Public API (types)
 
 /**
  * Duplicate dispatch handling modes:
  *
- * - 'share': In-flight → return the ongoing Promise. Quick-repeat → acts like 'drop'.
+ * - 'share': In-flight → return the ongoing Promise. Quick-repeat → settle with the cached result
+ *   of the last execution (see `ResultCacheOptions`); acts like 'drop' with `cache: false`.
  * - 'drop' : Ignore the duplicate; return `undefined`.
  * - 'warn' : Log a warning; allow duplicate to run.
- * - 'block': Throw an Error to block the duplicate.
+ * - 'block': Block the duplicate with a `DuplicateDispatchError` (thrown or rejected, see `block` option).
+ * - 'latest': In-flight → the newest dispatch wins: older duplicates that have not started yet
+ *   (queued, or dispatched in the same tick) are discarded (see `superseded`), a running one
+ *   finishes (see `abortSuperseded`).
+ *   Quick-repeat → runs the duplicate (nothing left to supersede).
  *
  * Notes:
  * - The "in-flight" phase applies while an action is queued or running.
  * - The "quick-repeat" phase applies if a duplicate is dispatched shortly *after* the last finish.
  */
-export type DedupeMode = 'share' | 'drop' | 'warn' | 'block'
+export type DedupeMode = 'share' | 'drop' | 'warn' | 'block' | 'latest'
+
+/**
+ * Quick-repeat handling: all `DedupeMode`s, plus deferred runs for repeats within `thresholdMillis`
+ * of the last finish (the first dispatch still runs right away):
+ *
+ * - 'debounce': trailing edge — wait until repeats stop for `thresholdMillis`, then run once
+ *   with the last payload; every deferred caller resolves with that result.
+ * - 'throttle': at most one run per window — the repeat runs `thresholdMillis` after the last
+ *   finish (with the last payload); further repeats share that scheduled run.
+ *
+ * Deferred runs go through the lock like any other dispatch.
+ * Repeats are grouped by dedupe key (use `key` to group calls with different payloads).
+ */
+export type QuickRepeatMode = DedupeMode | 'debounce' | 'throttle'
+
+/**
+ * Settings of the 'latest' dedupe mode:
+ *
+ * - `latestBy`: 'key' → only dispatches with the same dedupe key supersede each other (default);
+ *   'action' → any newer dispatch of the same action does (search-as-you-type with a new query).
+ * - `superseded`: 'resolve' → discarded callers await the newest dispatch's result (default);
+ *   'reject' → they reject with a `DispatchSupersededError`.
+ * - `abortSuperseded`: also abort the signal of a running older dispatch (see `getActionSignal`),
+ *   so it can cancel its request. Default: false.
+ */
+export type LatestWinsOptions = {
+  latestBy?: 'key' | 'action'
+  superseded?: 'resolve' | 'reject'
+  abortSuperseded?: boolean
+}
+
+/**
+ * Result of parsing a Vuex action type.
+ * "counter/increment" → { fullType: "counter/increment", namespace: "counter/", action: "increment" }
+ * "increment"         → { fullType: "increment",         namespace: "",          action: "increment" }
+ */
+export type ParsedType = {
+  fullType: string
+  namespace: string
+  action: string
+}
+
+/**
+ * How the payload part of a dedupe key is built. Keys are always scoped to
+ * `namespace + action`, so two different actions never dedupe each other.
+ *
+ * - function: `(parsed, payload) => string | null` — custom key; `null` opts this call out of dedupe.
+ * - `{ pick: [...] }`: only these top-level payload fields count (e.g. `['id', 'locale']`).
+ * - `{ omit: [...] }`: all payload fields except these count (e.g. `['timestamp', 'requestId']`).
+ *
+ * Default: the whole payload (stable JSON, sorted keys).
+ */
+export type DedupeKeyStrategy = ((parsed: ParsedType, payload: any) => string | null) | {pick: string[]} | {omit: string[]}
+
+/**
+ * Dedupe key strategy for matching action types; the first matching entry wins.
+ * Examples: { match: /^search\//, key: { omit: ['requestId'] } }
+ */
+export type DedupeKeyRule = {
+  match: string | RegExp | (string | RegExp)[]
+  key: DedupeKeyStrategy
+}
+
+/**
+ * Last results per dedupe key, so a quick-repeat 'share' settles like the execution it repeats.
+ * Results are kept for actions whose quick-repeat mode is 'share' or that use `staleWhileRevalidate`.
+ * Without a usable result (expired, evicted, or a failure with `cacheFailures: false`) the repeat runs again.
+ */
+export type ResultCacheOptions = {
+  /** How long a result is reused (ms). Default: `thresholdMillis`. */
+  ttlMillis?: number
+  /** Maximum cached results per store; the oldest are evicted first. Default: 100. Global only. */
+  maxEntries?: number
+  /** Replay rejections as well. Default: true; `false` → a repeat after a failure runs again. */
+  cacheFailures?: boolean
+  /**
+   * Outside the quick-repeat window, a dispatch with a successful result younger than `ttlMillis`
+   * resolves to that result right away while the action runs in the background to refresh it.
+   * Default: false.
+   */
+  staleWhileRevalidate?: boolean
+}
+
+/**
+ * Reported when a serialized action holds its lock longer than `maxRunMillis`.
+ * `released` tells whether the lock was force-released (`releaseWhenStuck`).
+ */
+export type StuckActionEvent = {
+  dispatchId: string
+  fullType: string
+  mutexKey: string
+  /** `Date.now()` when the action acquired its lock. */
+  startedAt: number
+  runMillis: number
+  released: boolean
+}
+
+/** Started/done/ok/error counters of a store and the ids of dispatches that have not finished. */
+export type DispatchHealth = {
+  totalStarted: number
+  totalDone: number
+  totalSucceeded: number
+  totalErrored: number
+  /** Retries of failed actions (see `MutexRule.retry`); a retried dispatch counts once in the totals above. */
+  totalRetried: number
+  pendingIds: string[]
+}
+
+/** A dispatch that is queued or running. */
+export type DispatchSnapshot = {
+  dispatchId: string
+  fullType: string
+  /** Lock key; null if it runs without a lock. */
+  mutexKey: string | null
+  dedupeKey: string | null
+  access: LockAccess
+  priority: number
+  /** `Date.now()` when it was dispatched. */
+  queuedAt: number
+  /** `Date.now()` when it started; null while it waits for its lock. */
+  startedAt: number | null
+  /** Runs under the lock of an ancestor dispatch. */
+  reentrant: boolean
+}
+
+/** One lock key with the dispatches holding it and those waiting for it (in arrival order). */
+export type LockSnapshot = {
+  mutexKey: string
+  running: DispatchSnapshot[]
+  queued: DispatchSnapshot[]
+}
+
+/** Live state of a store (see `getVuexMutex(store).snapshot()`). */
+export type MutexSnapshot = {
+  at: number
+  /** Lock keys with running or queued dispatches. */
+  locks: LockSnapshot[]
+  /** Running dispatches without a lock key. */
+  unlocked: DispatchSnapshot[]
+  /** Dedupe keys with a queued or running dispatch. */
+  inFlightKeys: string[]
+}
+
+/** Inspection API of one store (see `getVuexMutex`). */
+export type VuexMutexInspector = {
+  health: () => DispatchHealth
+  snapshot: () => MutexSnapshot
+  /** Aggregated timings and counts per action and lock key (undefined with `metrics: false`). */
+  metrics: () => MutexMetrics | undefined
+  /** The same metrics in the Prometheus text exposition format (undefined with `metrics: false`). */
+  prometheusMetrics: () => string | undefined
+  /** Resets the counters and metrics; dispatches still pending stay counted as started. */
+  resetStats: () => void
+  /** Recorded dispatches, oldest first (undefined without `trace`). */
+  trace: () => TraceEntry[] | undefined
+  /** The recorded dispatches in the Chrome Trace Event format, for about:tracing or Perfetto (undefined without `trace`). */
+  chromeTrace: () => ChromeTrace | undefined
+  /** Drops the recorded dispatches. */
+  clearTrace: () => void
+  /**
+   * Ends the cross-tab mode of the store: announces its leases and in-flight dedupe keys as
+   * released, stops renewing them and closes the transport (the default `BroadcastChannel`
+   * too). The lock keys then apply to this tab only.
+   */
+  closeCrossTab: () => void
+}
+
+/** Fields shared by all lifecycle events. */
+export type MutexEventBase = {
+  dispatchId: string
+  /** Dispatch id of the action that dispatched this one (null for dispatches from outside an action). */
+  parentId: string | null
+  fullType: string
+  /** Module namespace ("deal/"; "" for root actions). */
+  namespace: string
+  /** Lock key of the dispatch; null if it runs without a lock. */
+  mutexKey: string | null
+  /** Dedupe key of the dispatch; null if it skips dedupe. */
+  dedupeKey: string | null
+  /** When the event happened (`clock.now()`, by default `Date.now()`). */
+  at: number
+}
+
+/**
+ * Structured lifecycle events (see `MutexPluginOptions.onQueued` etc. and `VuexMutexPlugin.subscribe`):
+ *
+ * - 'queued' : started waiting for its lock.
+ * - 'start'  : the action runs (`locked: false` → reentrant or without a lock key).
+ * - 'reenter': a nested dispatch runs under the lock already held by an ancestor.
+ * - 'finish' : the dispatch settled; every 'queued'/'start' is followed by exactly one 'finish'.
+ *   'cancelled' → it left the queue before it started (timeout, abort or superseded).
+ * - 'error'  : the caller's promise rejects (action failure, timeout, abort, stuck, superseded).
+ * - 'dedupe' : a dedupe mode applied to the dispatch (it may never start).
+ * - 'stuck'  : the watchdog fired (see `maxRunMillis`).
+ * - 'retry'  : the action failed and runs again after `delayMillis` (see `MutexRule.retry`).
+ */
+export type MutexEvent =
+  | (MutexEventBase & {type: 'queued'; access: LockAccess; priority: number})
+  | (MutexEventBase & {type: 'start'; waitMillis: number; locked: boolean})
+  | (MutexEventBase & {type: 'reenter'})
+  | (MutexEventBase & {type: 'finish'; status: 'ok' | 'error' | 'cancelled'; waitMillis: number; runMillis: number | null; totalMillis: number})
+  | (MutexEventBase & {type: 'error'; error: unknown; started: boolean})
+  | (MutexEventBase & {type: 'dedupe'; phase: 'IN-FLIGHT' | 'QUICK-REPEAT'; mode: QuickRepeatMode; deltaMillis: number | null; thresholdMillis: number})
+  | (MutexEventBase & StuckActionEvent & {type: 'stuck'})
+  | (MutexEventBase & {type: 'retry'; attempt: number; retries: number; delayMillis: number; error: unknown})
+
+export type MutexEventType = MutexEvent['type']
+
+/** The lifecycle event of one type, e.g. `MutexEventOf<'finish'>`. */
+export type MutexEventOf<T extends MutexEventType> = Extract<MutexEvent, {type: T}>
+
+/**
+ * Time source of the plugin: quick-repeat windows, debounce/throttle, wait and run limits,
+ * result cache TTLs and event timestamps. Default: `Date.now` and the global timers.
+ * See `createTestClock` in `@iits-consulting/vuex-mutex/testing`.
+ */
+export type MutexClock = {
+  now: () => number
+  /** Returns a handle for `clearTimeout`. */
+  setTimeout: (callback: () => void, millis: number) => unknown
+  clearTimeout: (handle: unknown) => void
+}
+
+/** The plugin returned by `createVuexMutexPlugin`. */
+export type VuexMutexPlugin = Plugin<any> & {
+  /**
+   * Receives the lifecycle events of every store the plugin is installed into.
+   * Returns a function that removes the listener.
+   */
+  subscribe: (listener: (event: MutexEvent) => void) => () => void
+}
+
+/**
+ * Which lock a serialized action acquires:
+ *
+ * - 'namespace': one lock per module namespace (default).
+ * - 'action'   : one lock per full action type (`deal/save` does not wait for `deal/fetch`).
+ * - 'none'     : no lock (dedupe only), same as `lock: false`.
+ * - any other string: a named lock group shared by all matching actions,
+ *   e.g. 'checkout' for both `cart/` and `checkout/` actions.
+ * - function: `(parsed, payload) => string | null` — lock derived from the call,
+ *   e.g. `` (_, p) => `deal/save:${p.dealId}` `` so saves of different deals run concurrently;
+ *   `null` → no lock for this call.
+ */
+export type LockKeyStrategy = 'namespace' | 'action' | 'none' | (string & {}) | ((parsed: ParsedType, payload: any) => string | null)
+
+/**
+ * Retry policy of a rule: a failed action runs again after an exponential backoff.
+ * The retries belong to the same dispatch (one id, one 'finish' event), so in-flight
+ * `share` callers get the final outcome.
+ *
+ * Example: { match: 'deal/save', retry: { retries: 3, retryIf: (error) => isNetworkError(error) } }
+ */
+export type RetryOptions = {
+  /** Attempts after the first failure. */
+  retries: number
+  /** Delay before the first retry (ms); multiplied by `factor` for each further retry. Default: 200. */
+  delayMillis?: number
+  /** Default: 2. */
+  factor?: number
+  /** Upper bound of a single delay (ms). Default: 10000. */
+  maxDelayMillis?: number
+  /** Random share (0–1) taken off each delay, so clients do not retry in lockstep. Default: 0.5. */
+  jitter?: number
+  /**
+   * Retries only errors this returns true for (`attempt`: 1 for the first retry). Default: all errors.
+   * Errors of the plugin (e.g. `ActionStuckError`) are never retried.
+   */
+  retryIf?: (error: unknown, attempt: number) => boolean
+  /**
+   * 'hold'   : keep the lock during the backoff (default).
+   * 'release': release it and queue for it again, so other dispatches of the lock key run in between.
+   */
+  lock?: 'hold' | 'release'
+}
+
+/**
+ * Opt-in cross-tab mode (see `MutexPluginOptions.crossTab`).
+ *
+ * Example: { lockKeys: ['deal/', 'checkout'] }
+ */
+export type CrossTabOptions = {
+  /** Lock keys also acquired across tabs: exact keys ("deal/"), `*` wildcards or RegExp. */
+  lockKeys: (string | RegExp)[]
+  /** Apply in-flight and quick-repeat dedupe of these lock keys' dispatches across tabs. Default: true. */
+  dedupe?: boolean
+  /** Default: `createBroadcastTransport()` in a browser; null or outside a browser (SSR, Node) → this tab only. */
+  transport?: CrossTabTransport | null
+  /** Lease fallback (no Web Locks): a lease not renewed within this time expires. Default: 5000. */
+  leaseMillis?: number
+  /** Lease fallback: time a claim waits for competing claims of other tabs. Default: 50. */
+  claimMillis?: number
+}
+
+/**
+ * Per-action policy. Rules are checked in order and the first rule whose `match`
+ * matches the action type wins; unset fields fall back to the global `dedupe` settings.
+ * String matchers are exact `fullType`s and may contain `*` wildcards ("user/fetch*").
+ *
+ * Examples:
+ * { match: 'user/fetch*', inFlight: 'share', quickRepeat: 'drop' }
+ * { match: 'deal/save', inFlight: 'block', quickRepeat: 'block', thresholdMillis: 800 }
+ * { match: /^metrics\//, lock: false }
+ */
+export type MutexRule = LatestWinsOptions & {
+  match: string | RegExp | (string | RegExp)[]
+  inFlight?: DedupeMode
+  quickRepeat?: QuickRepeatMode
+  thresholdMillis?: number
+  /** Serialize through a mutex. Default: true. `false` → run immediately, dedupe only. */
+  lock?: boolean
+  /** Which mutex matching actions acquire (see `LockKeyStrategy`). Default: global `lockKey`. */
+  lockKey?: LockKeyStrategy
+  /** 'read' → may run alongside other readers of the same lock; 'write' → exclusive. Default: `readers` option, else 'write'. */
+  access?: LockAccess
+  /**
+   * Up to N matching dispatches may hold their lock at once (semaphore instead of mutex).
+   * Default: 1 for writers, unlimited for readers. Readers and writers still never overlap.
+   * Example: { match: 'images/upload', maxConcurrent: 3 }
+   */
+  maxConcurrent?: number
+  /**
+   * Queue priority of matching dispatches (higher is served first). Default: 0.
+   * A single dispatch can override it via `store.dispatch(type, payload, { priority })`.
+   */
+  priority?: number
+  /** Maximum time matching dispatches wait for their lock (see `MutexPluginOptions.maxWaitMillis`). */
+  maxWaitMillis?: number
+  /** Watchdog for matching dispatches (see `MutexPluginOptions.maxRunMillis`). */
+  maxRunMillis?: number
+  /** Force-release the lock of stuck matching dispatches (see `MutexPluginOptions.releaseWhenStuck`). */
+  releaseWhenStuck?: boolean
+  /** Apply in-flight/quick-repeat dedupe. Default: true. */
+  dedupe?: boolean
+  /** Dedupe key strategy for matching actions (see `DedupeKeyStrategy`). */
+  key?: DedupeKeyStrategy
+  /** Result cache for matching actions, merged over `dedupe.cache`; `false` → no cache. */
+  cache?: false | Omit<ResultCacheOptions, 'maxEntries'>
+  /** How the 'block' mode surfaces the `DuplicateDispatchError` for matching actions (see `dedupe.block`). */
+  block?: 'throw' | 'reject'
+  /** Retry failed matching actions with backoff (see `RetryOptions`). Default: no retries. */
+  retry?: RetryOptions
+}
 
 export type MutexPluginOptions = {
   /**
    * Only these action types are serialized (others run normally).
-   * Matches exact `fullType` (e.g. "user/fetchProfile") or RegExp.
+   * Matches exact `fullType` (e.g. "user/fetchProfile"), `*` wildcards or RegExp.
    * Examples: include: ["user/fetchProfile", /^contractRequest\//]
    */
   include?: (string | RegExp)[]
 
   /**
    * Action types to skip entirely (no mutex, no dedupe).
-   * Matches exact `fullType` or RegExp for prefixes.
+   * Matches exact `fullType`, `*` wildcards or RegExp for prefixes.
    * Examples: exclude: ["metrics/trackEvent", /^dev\//]
    */
   exclude?: (string | RegExp)[]
 
   /**
-   * Generic duplicate handling (per namespace+action).
+   * Ordered per-action policies; the first matching rule wins (see `MutexRule`).
+   * `include`/`exclude` decide first whether an action is handled at all,
+   * `noDedupe` turns dedupe off on top of the matching rule.
+   */
+  rules?: MutexRule[]
+
+  /**
+   * Which mutex an action acquires when no rule sets `lockKey` (see `LockKeyStrategy`).
+   * Default: 'namespace'.
+   */
+  lockKey?: LockKeyStrategy
+
+  /**
+   * Read-only action types: they run concurrently with other readers of the same lock,
+   * while all other (writer) actions get exclusive access. A waiting writer is served
+   * before readers that arrive after it (no writer starvation).
+   * Examples: readers: ["user/fetch*", /^catalog\/load/]
+   */
+  readers?: (string | RegExp)[]
+
+  /**
+   * Aging of waiting dispatches: each `priorityAgingMillis` of waiting raises the effective
+   * queue priority by 1, so low-priority work is not starved forever. Default: 1000.
+   * `Infinity` → no aging (strict priority order).
+   */
+  priorityAgingMillis?: number
+
+  /**
+   * Maximum time a dispatch waits for its lock. When exceeded, it is removed from the queue
+   * and rejected with a `QueueTimeoutError`. Default: no limit.
+   * Per rule via `rules[].maxWaitMillis`, per call via `store.dispatch(type, payload, { maxWaitMillis })`.
+   */
+  maxWaitMillis?: number
+
+  /**
+   * Watchdog: a serialized action still running after `maxRunMillis` is reported as stuck
+   * (warning log + `onStuck`). Default: no watchdog.
+   */
+  maxRunMillis?: number
+
+  /**
+   * Force-release the lock of a stuck action so the lock key recovers; the caller's promise
+   * rejects with an `ActionStuckError` (the action itself keeps running, its result is ignored).
+   * Default: false (report only).
+   */
+  releaseWhenStuck?: boolean
+
+  /** Called when an action exceeds `maxRunMillis` (also emitted as a 'stuck' event). */
+  onStuck?: (event: StuckActionEvent) => void
+
+  /**
+   * Deadlock detection before a dispatch is queued: a cycle in the wait-for graph means the
+   * lock it needs is held by a dispatch that (through its nested dispatches) waits for a lock
+   * held by this dispatch's ancestors, e.g. `cart/` ⇄ `user/` calling each other.
+   * - 'log': warn with the full cycle and queue anyway (default)
+   * - 'reject': reject the dispatch with a `DeadlockError`
+   * - 'reenter': run it without taking its lock, like a reentrant dispatch
+   * - 'off': no detection
+   */
+  deadlock?: 'log' | 'reject' | 'reenter' | 'off'
+
+  /** Lifecycle hooks (see `MutexEvent`); use `plugin.subscribe(listener)` for all events at once. */
+  onQueued?: (event: MutexEventOf<'queued'>) => void
+  onStart?: (event: MutexEventOf<'start'>) => void
+  onReenter?: (event: MutexEventOf<'reenter'>) => void
+  onFinish?: (event: MutexEventOf<'finish'>) => void
+  onError?: (event: MutexEventOf<'error'>) => void
+  onDedupe?: (event: MutexEventOf<'dedupe'>) => void
+  onRetry?: (event: MutexEventOf<'retry'>) => void
+
+  /**
+   * Generic duplicate handling (per namespace+action). Defaults for actions without a matching rule.
    */
-  dedupe?: {
+  dedupe?: LatestWinsOptions & {
     /** When an identical dispatch is already queued/running. */
     inFlight?: DedupeMode
     /** When dispatched shortly after the last finish (within thresholdMillis). */
-    quickRepeat?: DedupeMode
+    quickRepeat?: QuickRepeatMode
     /** Window for quickRepeat (ms). Default: 500. */
     thresholdMillis?: number
+    /** Default dedupe key strategy. Default: the whole payload. */
+    key?: DedupeKeyStrategy
+    /** Per-action key strategies; the first matching entry wins over `key`. */
+    keys?: DedupeKeyRule[]
+    /** Result cache for quick-repeat 'share' and stale-while-revalidate. Default: enabled; `false` → off. */
+    cache?: false | ResultCacheOptions
+    /**
+     * How the 'block' mode surfaces its `DuplicateDispatchError`:
+     * 'throw' → `store.dispatch` throws synchronously (default); 'reject' → it returns a rejected promise.
+     */
+    block?: 'throw' | 'reject'
   }
 
   /**
@@ -61,84 +531,470 @@ export type MutexPluginOptions = {
   noDedupe?: (string | RegExp)[]
   isProduction?: boolean
   debug?: boolean
+
+  /**
+   * Where log lines go. Default: `createConsoleLogger()` (colored browser console);
+   * `createPlainLogger({ format: 'text' | 'json' })` for Node/SSR logs and test output.
+   */
+  logger?: VuexMutexLogger
+  /** Drop log lines below this level. Default: 'debug' (`debug: true` still decides whether trace lines are produced). */
+  logLevel?: LogLevel
+  /** Minimum time between dedupe logs per dedupe key and phase (ms). Default: 400. */
+  logThrottleMillis?: number
+
+  /**
+   * Adds a "Vuex Mutex" timeline layer and inspector to the Vue Devtools once the store is
+   * installed into an app (Vue 3 / Vuex 4). While they are attached, the `debug` trace lines
+   * go to the timeline instead of the logger. Default: false.
+   */
+  devtools?: boolean
+
+  /**
+   * Per-action and per-lock-key metrics (counts, dedupes, wait/run histograms), read through
+   * `getVuexMutex(store)`. `bucketsMillis`: upper bounds of the histogram buckets
+   * (default: 1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000). `maxLockKeys`: lock
+   * keys with their own series, later ones are grouped under `(other)`; 0 → no per-lock-key
+   * metrics (default: 100). Default: true.
+   */
+  metrics?: boolean | {bucketsMillis?: number[]; maxLockKeys?: number}
+
+  /**
+   * Records every dispatch (parent, lock key, timestamps, outcome, dedupe decision) into a ring
+   * buffer of the last `capacity` dispatches (default: 1000), read through `getVuexMutex(store)`.
+   * Default: false.
+   */
+  trace?: boolean | {capacity?: number}
+
+  /**
+   * Cross-tab mode: the listed lock keys are also acquired across the tabs of the app (Web Locks
+   * API, else leases over a BroadcastChannel), and dedupe of their dispatches includes the
+   * dispatches of the other tabs. Default: off (every tab locks on its own).
+   */
+  crossTab?: CrossTabOptions
+
+  /**
+   * true → always on; false → the plugin does nothing; 'auto' → off while `process.env.VITEST`
+   * is set (so app test suites are not affected unless they opt in). Default: 'auto'.
+   */
+  enabled?: boolean | 'auto'
+
+  /** Time source for thresholds, timeouts and timestamps (default: system clock). */
+  clock?: MutexClock
 }
 
 //#endregion
 
 //#region Internal: parsing & constants
 
+/** Prevent wrapping the same store twice. @internal */
+const WRAPPED = Symbol('vuex-mutex-dispatch-wrapped')
+
+/** Default minimum time between dedupe logs per key/phase. @internal */
+const LOG_THROTTLE_MILLIS = 400
+
+/** Looks up `Date` and the timers on every call, so fake timers installed later still apply. @internal */
+const SYSTEM_CLOCK: MutexClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, millis) => setTimeout(callback, millis),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+}
+
 /**
- * Result of parsing a Vuex action type.
- * "counter/increment" → { fullType: "counter/increment", namespace: "counter/", action: "increment" }
- * "increment"         → { fullType: "increment",         namespace: "",          action: "increment" }
+ * Effective handling of one action type: matching rule merged with the global defaults.
  * @internal
  */
-type ParsedType = {
-  fullType: string
-  namespace: string
-  action: string
+type ActionPolicy = {
+  lockKey: LockKeyStrategy
+  access: LockAccess
+  /** undefined → lock default (1 for writers, unlimited for readers) */
+  maxConcurrent?: number
+  priority: number
+  maxWaitMillis?: number
+  maxRunMillis?: number
+  releaseWhenStuck: boolean
+  dedupe: boolean
+  inFlight: DedupeMode
+  quickRepeat: QuickRepeatMode
+  thresholdMillis: number
+  key?: DedupeKeyStrategy
+  block: 'throw' | 'reject'
+  /** null → no result cache */
+  cache: {ttlMillis: number; cacheFailures: boolean; staleWhileRevalidate: boolean} | null
+  latestBy: 'key' | 'action'
+  superseded: 'resolve' | 'reject'
+  abortSuperseded: boolean
+  /** null → no retries */
+  retry: RetryPolicy | null
 }
 
-/** Prevent wrapping the same store twice. @internal */
-const WRAPPED = Symbol('vuex-mutex-dispatch-wrapped')
-
-/** Minimum time between dedupe logs per key/phase. @internal */
-const LOG_THROTTLE_MILLIS = 400
+/** `RetryOptions` with defaults applied. @internal */
+type RetryPolicy = Required<Omit<RetryOptions, 'retryIf'>> & Pick<RetryOptions, 'retryIf'>
 
 //#endregion
 
-//#region Instrumentation state (batch/health) — @internal
-
-let DISPATCH_SEQUENCE = 1
-let OPEN_OPERATIONS = 0
-let TOTAL_OPERATIONS = 0
-let ACTIVE_BATCH = 0
-let BATCH_START_TOTAL = 0
-let BATCH_IDS: string[]
-const STARTED_IDS = new Set<string>()
-const DONE_IDS = new Set<string>()
-const ERROR_OCCURRED_IDS = new Set<string>()
+//#region Per-store state — @internal
+
+/** Idle time after the last finished dispatch before the health report is emitted. @internal */
 const HEALTH_IDLE_MILLIS = 400
-let HEALTH_TIMER: ReturnType<typeof setTimeout> | null = null
-let DEBUG_GATE = false
+
+/**
+ * All bookkeeping of one store: locks, dedupe maps, counters, reentrancy hand-off,
+ * batch/health instrumentation and the logging settings.
+ *
+ * Created when the plugin is installed into a store, so separate stores
+ * (concurrent SSR requests, multi-store apps) never influence each other's
+ * locking, dedupe or health reports.
+ */
+type MutexState = {
+  debug: boolean
+  log: LogWrite
+  /** Minimum time between dedupe logs per key/phase. */
+  logThrottleMillis: number
+  /** Time source of thresholds, timeouts and timestamps. */
+  clock: MutexClock
+  dispatchSequence: number
+
+  // Locking & dedupe
+  mutexByKey: Map<string, DispatchLock>
+  inFlightByKey: Map<string, Promise<any>>
+  lastDoneAtByKey: Map<string, number>
+  queuedCountByKey: Map<string, number>
+  runningCountByKey: Map<string, number>
+  lastLogAtByKey: Map<string, number>
+  /** Dispatches under the 'latest' mode per group (dedupe key or action type), queued and running. */
+  latestByGroup: Map<string, Set<LatestEntry>>
+  /** Pending debounced/throttled runs per dedupe key. */
+  deferredByKey: Map<string, DeferredRun>
+  /** Last results per dedupe key (insertion order = eviction order). */
+  resultByKey: Map<string, CachedResult>
+
+  // Wait-for graph (see "Deadlock detection" region)
+  /** Dispatches holding a lock, per lock key. */
+  holdersByKey: Map<string, Set<LockClaim>>
+  /** Dispatches waiting for their lock, by dispatch id. */
+  waitingById: Map<string, LockClaim>
+
+  // Reentrancy hand-off (see "Reentrancy" region)
+  startingFrame: DispatchFrame | null
+  caller: CallerHandOff | null
+
+  // Batch / health instrumentation (always tracked; logged with `debug`)
+  openOperations: number
+  totalOperations: number
+  activeBatch: number
+  batchStartTotal: number
+  batchIds: string[]
+  startedCount: number
+  doneCount: number
+  erroredCount: number
+  retriedCount: number
+  /** Queued or running dispatches by id (insertion order = arrival order). */
+  activeById: Map<string, DispatchSnapshot>
+  /** Handle of `clock.setTimeout`; null if no report is scheduled. */
+  healthTimer: unknown
+  /** Pending `whenIdle` calls. */
+  idleWaiters: Set<IdleWaiter>
+  /** Fed with the lifecycle events of the store; null with `metrics: false`. */
+  metrics: MetricsRecorder | null
+  /** Fed with the lifecycle events of the store; null without `trace`. */
+  trace: TraceRecorder | null
+  /** Cross-tab mode of the store; null if off, unavailable (SSR) or closed. */
+  crossTab: CrossTabClient | null
+}
+
+function createMutexState({debug, log, logThrottleMillis, clock, metrics, trace}: Pick<MutexState, 'debug' | 'log' | 'logThrottleMillis' | 'clock' | 'metrics' | 'trace'>): MutexState {
+  return {
+    debug,
+    log,
+    logThrottleMillis,
+    clock,
+    metrics,
+    trace,
+    dispatchSequence: 1,
+
+    mutexByKey: new Map(),
+    inFlightByKey: new Map(),
+    lastDoneAtByKey: new Map(),
+    queuedCountByKey: new Map(),
+    runningCountByKey: new Map(),
+    lastLogAtByKey: new Map(),
+    latestByGroup: new Map(),
+    deferredByKey: new Map(),
+    resultByKey: new Map(),
+
+    holdersByKey: new Map(),
+    waitingById: new Map(),
+
+    startingFrame: null,
+    caller: null,
+
+    openOperations: 0,
+    totalOperations: 0,
+    activeBatch: 0,
+    batchStartTotal: 0,
+    batchIds: [],
+    startedCount: 0,
+    doneCount: 0,
+    erroredCount: 0,
+    retriedCount: 0,
+    activeById: new Map(),
+    healthTimer: null,
+    idleWaiters: new Set(),
+    crossTab: null,
+  }
+}
+
+/** State of every store the plugin is installed into (for store-level helpers like `getVuexMutex`). @internal */
+const STATE_BY_STORE = new WeakMap<Store<any>, MutexState>()
 
 //#endregion
 
-//#region Reentrancy (per-namespace) — @internal
+//#region Reentrancy (causal dispatch frames) — @internal
+
+/**
+ * Every wrapped dispatch gets a frame. A dispatch made through the `dispatch`
+ * of a running action's context carries that action's frame as `parent`, so
+ * the frames form the causal chain of the call. So does a dispatch through the
+ * store itself (`this.dispatch`) while the action's handler runs synchronously,
+ * i.e. before its first `await`.
+ *
+ * Nested dispatches into a mutex already held by an ancestor must not try to
+ * re-acquire it (deadlock risk). We treat them as reentrant: no lock,
+ * but still subject to dedupe rules. Dispatches without such an ancestor
+ * (components, router guards, a `store.dispatch` captured elsewhere) queue
+ * on the mutex as usual, even while another action of the namespace runs.
+ * A nested dispatch runs under its ancestor's lock whatever its own access is
+ * (a writer nested in a reader does not wait for other readers to finish).
+ */
+type DispatchFrame = {
+  /** Mutex key held (or passed through reentrantly) by this dispatch; null if it runs without a lock. */
+  mutexKey: string | null
+  parent: DispatchFrame | null
+  settled: boolean
+  /** Dispatch id of an action handled by the plugin (pass-through dispatches have none). */
+  dispatchId?: string
+  /** Created on demand by `getActionSignal`. */
+  abortController?: AbortController
+}
+
+/**
+ * What an action context's `dispatch` hands to the wrapped `store.dispatch`: the calling
+ * action's frame, plus the dispatch options (Vuex drops them for namespaced contexts).
+ * `deferred` marks the run of a debounced/throttled dispatch (skips the quick-repeat phase).
+ */
+type CallerHandOff = {
+  frame: DispatchFrame | null
+  options: DispatchOptions | undefined
+  deferred?: boolean
+}
+
+/** Marks module contexts whose `dispatch` is already frame-aware. @internal */
+const CONTEXT_BOUND = Symbol('vuex-mutex-context-bound')
 
 /**
- * Nested dispatches inside the same namespace must not try to re-acquire
- * the same mutex (deadlock risk). We treat them as reentrant: no lock,
- * but still subject to dedupe rules.
+ * Runs `fn` (which invokes the action handlers) while `frame` is the starting frame.
+ * `state.startingFrame` is the frame of the action Vuex is invoking right now (synchronous hand-off).
  */
-const activeDepthByNamespace = new Map<string, number>()
+function runStarting<T>(state: MutexState, frame: DispatchFrame, fn: () => T): T {
+  const previous = state.startingFrame
+  state.startingFrame = frame
+  try {
+    return fn()
+  } finally {
+    state.startingFrame = previous
+  }
+}
+
+/**
+ * Runs `fn` (which calls into `store.dispatch`) while `caller` is handed off.
+ * `state.caller` describes the action context whose `dispatch` is calling right now.
+ */
+function runFromCaller<T>(state: MutexState, caller: CallerHandOff, fn: () => T): T {
+  const previous = state.caller
+  state.caller = caller
+  try {
+    return fn()
+  } finally {
+    state.caller = previous
+  }
+}
 
-function namespaceEnter(namespace: string) {
-  activeDepthByNamespace.set(namespace, (activeDepthByNamespace.get(namespace) ?? 0) + 1)
+/** Reads and clears the caller hand-off, so dispatches made further down do not inherit it. */
+function takeCaller(state: MutexState): CallerHandOff | null {
+  const caller = state.caller
+  state.caller = null
+  return caller
 }
 
-function namespaceExit(namespace: string) {
-  const depth = (activeDepthByNamespace.get(namespace) ?? 1) - 1
-  if (depth <= 0) {
-    activeDepthByNamespace.delete(namespace)
-  } else {
-    activeDepthByNamespace.set(namespace, depth)
+/** Dispatch id of the closest ancestor handled by the plugin. */
+function ancestorDispatchId(parent: DispatchFrame | null): string | null {
+  for (let frame = parent; frame; frame = frame.parent) {
+    if (frame.dispatchId !== undefined) {
+      return frame.dispatchId
+    }
+  }
+  return null
+}
+
+/** True if an unsettled ancestor of the dispatch already holds `mutexKey`. */
+function isHeldByAncestor(parent: DispatchFrame | null, mutexKey: string): boolean {
+  for (let frame = parent; frame; frame = frame.parent) {
+    if (!frame.settled && frame.mutexKey === mutexKey) {
+      return true
+    }
   }
+  return false
 }
 
-function namespaceIsActive(namespace: string) {
-  return (activeDepthByNamespace.get(namespace) ?? 0) > 0
+/**
+ * Makes `context.dispatch` of every registered module frame-aware.
+ *
+ * Vuex reads `module.context.dispatch` each time it builds the context object
+ * for an action call, which happens synchronously inside `store.dispatch`.
+ * A getter therefore hands each action invocation a `dispatch` bound to the
+ * frame that is starting, and that binding survives any `await` in the action.
+ */
+function bindModuleContexts(store: Store<any>, state: MutexState, vuexDispatch: Store<any>['dispatch']) {
+  const visit = (module: any) => {
+    if (!module) {
+      return
+    }
+    const local = module.context
+    if (local && !local[CONTEXT_BOUND]) {
+      // Root-level contexts hold Vuex' own dispatch (captured before wrapping) → route them through the wrapper.
+      const localDispatch = local.dispatch
+      const forward = localDispatch === vuexDispatch ? (...args: any[]) => (store.dispatch as any)(...args) : localDispatch
+
+      Object.defineProperty(local, 'dispatch', {
+        configurable: true,
+        enumerable: true,
+        get() {
+          const frame = state.startingFrame
+          if (!frame) {
+            return forward
+          }
+          return (...args: any[]) => {
+            // Object-style dispatch: `dispatch({ type, ... }, options)`
+            const options = typeof args[0] === 'object' ? args[1] : args[2]
+            return runFromCaller(state, {frame, options}, () => forward(...args))
+          }
+        },
+      })
+      local[CONTEXT_BOUND] = true
+    }
+    module.forEachChild?.(visit)
+  }
+  visit((store as any)._modules?.root)
 }
 
 //#endregion
 
 //#region Matching & parsing helpers — @internal
 
-function matches(filters: (string | RegExp)[] | undefined, key: string): boolean {
-  if (!filters?.length) {
-    return false
+/** Converts a `*` wildcard pattern ("user/fetch*") into an anchored RegExp. */
+function wildcardToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${source}$`)
+}
+
+function matches(filters: string | RegExp | (string | RegExp)[] | undefined, key: string): boolean {
+  const list = Array.isArray(filters) ? filters : filters === undefined ? [] : [filters]
+  return list.some((filter) => {
+    if (typeof filter !== 'string') {
+      return filter.test(key)
+    }
+    return filter.includes('*') ? wildcardToRegExp(filter).test(key) : filter === key
+  })
+}
+
+/**
+ * Resolves how an action type is handled, or `null` if it is out of scope (include/exclude).
+ *
+ * Precedence: `include`/`exclude` → first matching rule → global `dedupe` defaults;
+ * `noDedupe` turns dedupe off regardless of the rule.
+ */
+function resolveActionPolicy(options: MutexPluginOptions, fullType: string): ActionPolicy | null {
+  const {include, exclude, rules, lockKey, readers, dedupe, noDedupe} = options
+  if (include && !matches(include, fullType)) {
+    return null
+  }
+  if (exclude && matches(exclude, fullType)) {
+    return null
+  }
+
+  const rule = rules?.find(({match}) => matches(match, fullType))
+  const keyRule = dedupe?.keys?.find(({match}) => matches(match, fullType))
+  const thresholdMillis = rule?.thresholdMillis ?? dedupe?.thresholdMillis ?? 500
+  const cache = rule?.cache === false || (rule?.cache === undefined && dedupe?.cache === false) ? null : {...(dedupe?.cache || {}), ...(rule?.cache || {})}
+
+  return {
+    lockKey: rule?.lock === false ? 'none' : (rule?.lockKey ?? lockKey ?? 'namespace'),
+    access: rule?.access ?? (matches(readers, fullType) ? 'read' : 'write'),
+    maxConcurrent: rule?.maxConcurrent,
+    priority: rule?.priority ?? 0,
+    maxWaitMillis: rule?.maxWaitMillis ?? options.maxWaitMillis,
+    maxRunMillis: rule?.maxRunMillis ?? options.maxRunMillis,
+    releaseWhenStuck: rule?.releaseWhenStuck ?? options.releaseWhenStuck ?? false,
+    dedupe: (rule?.dedupe ?? true) && !matches(noDedupe, fullType),
+    inFlight: rule?.inFlight ?? dedupe?.inFlight ?? 'warn',
+    quickRepeat: rule?.quickRepeat ?? dedupe?.quickRepeat ?? 'warn',
+    thresholdMillis,
+    key: rule?.key ?? keyRule?.key ?? dedupe?.key,
+    block: rule?.block ?? dedupe?.block ?? 'throw',
+    cache: cache && {
+      ttlMillis: cache.ttlMillis ?? thresholdMillis,
+      cacheFailures: cache.cacheFailures ?? true,
+      staleWhileRevalidate: cache.staleWhileRevalidate ?? false,
+    },
+    latestBy: rule?.latestBy ?? dedupe?.latestBy ?? 'key',
+    superseded: rule?.superseded ?? dedupe?.superseded ?? 'resolve',
+    abortSuperseded: rule?.abortSuperseded ?? dedupe?.abortSuperseded ?? false,
+    retry: rule?.retry && rule.retry.retries > 0
+      ? {
+          retries: rule.retry.retries,
+          delayMillis: rule.retry.delayMillis ?? 200,
+          factor: rule.retry.factor ?? 2,
+          maxDelayMillis: rule.retry.maxDelayMillis ?? 10_000,
+          jitter: rule.retry.jitter ?? 0.5,
+          retryIf: rule.retry.retryIf,
+          lock: rule.retry.lock ?? 'hold',
+        }
+      : null,
+  }
+}
+
+/** Exponential backoff before retry number `attempt` (1-based), minus a random share of up to `jitter`. */
+function retryDelayMillis(retry: RetryPolicy, attempt: number): number {
+  const delay = Math.min(retry.maxDelayMillis, retry.delayMillis * retry.factor ** (attempt - 1))
+  return Math.round(delay * (1 - retry.jitter * Math.random()))
+}
+
+/**
+ * Resolves the mutex key of a single dispatch, or `null` if it runs without a lock.
+ *
+ * @example
+ * resolveLockKey('namespace', parseType('deal/save'), {})         // → 'deal/'
+ * resolveLockKey('action', parseType('deal/save'), {})            // → 'deal/save'
+ * resolveLockKey('checkout', parseType('cart/add'), {})           // → 'checkout'
+ * resolveLockKey((_, p) => `deal:${p.id}`, parseType('deal/save'), {id: 7}) // → 'deal:7'
+ */
+function resolveLockKey(strategy: LockKeyStrategy, parsed: ParsedType, payload: any): string | null {
+  if (typeof strategy === 'function') {
+    return strategy(parsed, payload)
+  }
+  switch (strategy) {
+    case 'namespace':
+      return parsed.namespace || '__root__'
+    case 'action':
+      return parsed.fullType
+    case 'none':
+      return null
+    default:
+      return strategy
   }
-  return filters.some((filter) => (typeof filter === 'string' ? filter === key : filter.test(key)))
 }
 
 function parseType(typeLike: unknown): ParsedType {
@@ -167,43 +1023,54 @@ function parseType(typeLike: unknown): ParsedType {
 
 //#endregion
 
-//#region In-flight maps & counters — @internal
+//#region In-flight counters — @internal
 
-const lastLogAtByKey = new Map<string, number>()
-const queuedCountByKey = new Map<string, number>()
-const runningCountByKey = new Map<string, number>()
+// A `null` dedupe key means "not deduped" → nothing to count.
 
-function increaseQueued(key: string) {
-  queuedCountByKey.set(key, (queuedCountByKey.get(key) ?? 0) + 1)
+function increaseQueued(state: MutexState, key: string | null) {
+  if (key === null) {
+    return
+  }
+  state.queuedCountByKey.set(key, (state.queuedCountByKey.get(key) ?? 0) + 1)
 }
-function decreaseQueued(key: string) {
-  const count = (queuedCountByKey.get(key) ?? 0) - 1
+function decreaseQueued(state: MutexState, key: string | null) {
+  if (key === null) {
+    return
+  }
+  const count = (state.queuedCountByKey.get(key) ?? 0) - 1
   if (count <= 0) {
-    queuedCountByKey.delete(key)
+    state.queuedCountByKey.delete(key)
   } else {
-    queuedCountByKey.set(key, count)
+    state.queuedCountByKey.set(key, count)
   }
 }
 
-function increaseRunning(key: string) {
-  runningCountByKey.set(key, (runningCountByKey.get(key) ?? 0) + 1)
+function increaseRunning(state: MutexState, key: string | null) {
+  if (key === null) {
+    return
+  }
+  state.runningCountByKey.set(key, (state.runningCountByKey.get(key) ?? 0) + 1)
 }
-function decreaseRunning(key: string) {
-  const count = (runningCountByKey.get(key) ?? 0) - 1
+function decreaseRunning(state: MutexState, key: string | null) {
+  if (key === null) {
+    return
+  }
+  const count = (state.runningCountByKey.get(key) ?? 0) - 1
   if (count <= 0) {
-    runningCountByKey.delete(key)
+    state.runningCountByKey.delete(key)
   } else {
-    runningCountByKey.set(key, count)
+    state.runningCountByKey.set(key, count)
   }
 }
 
 //#endregion
 
-//#region Logging (in-flight / quick-repeat) — @internal
+//#region Logging & blocking (in-flight / quick-repeat) — @internal
 
 function logDedupe(
+  state: MutexState,
   phase: 'IN-FLIGHT' | 'QUICK-REPEAT',
-  mode: DedupeMode,
+  mode: QuickRepeatMode,
   fullType: string,
   key: string,
   options: {
@@ -211,17 +1078,21 @@ function logDedupe(
     thresholdMillis?: number
     queued?: number
     running?: number
+    /** Quick-repeat 'share' with a result cache: whether a result was found. */
+    cache?: 'hit' | 'miss'
   }
 ) {
-  const now = Date.now()
+  const now = state.clock.now()
   const throttleKey = `${phase}:${key}`
-  const lastLog = lastLogAtByKey.get(throttleKey) ?? 0
-  if (now - lastLog < LOG_THROTTLE_MILLIS) {
+  const lastLog = state.lastLogAtByKey.get(throttleKey)
+  if (lastLog !== undefined && now - lastLog < state.logThrottleMillis) {
     return
   }
-  lastLogAtByKey.set(throttleKey, now)
+  state.lastLogAtByKey.set(throttleKey, now)
 
-  const prefix = `[vuex-mutex][${phase}] action="${fullType}"`
+  const prefix = `[${phase}] action="${fullType}"`
+  const fields: LogFields = {event: 'dedupe', fullType, phase, mode, dedupeKey: key, ...options}
+  const log = (level: LogLevel, message: string) => state.log(level, message, fields)
   if (phase === 'IN-FLIGHT') {
     const queued = Math.max(0, options.queued ?? 0)
     const hasRunning = (options.running ?? 0) > 0
@@ -230,16 +1101,19 @@ function logDedupe(
 
     switch (mode) {
       case 'share':
-        console.info(`${prefix} — identical execution is ${stateText}${qText} → reused current execution (caller awaits same result)`)
+        log('info', `${prefix} — identical execution is ${stateText}${qText} → reused current execution (caller awaits same result)`)
         break
       case 'drop':
-        console.info(`${prefix} — identical execution is ${stateText}${qText} → dropped duplicate`)
+        log('info', `${prefix} — identical execution is ${stateText}${qText} → dropped duplicate`)
         break
       case 'warn':
-        console.warn(`${prefix} — identical execution is ${stateText}${qText} → starting another execution (duplicate)`)
+        log('warn', `${prefix} — identical execution is ${stateText}${qText} → starting another execution (duplicate)`)
         break
       case 'block':
-        console.error(`${prefix} — identical execution is ${stateText}${qText} → blocked duplicate (error thrown)`)
+        log('error', `${prefix} — identical execution is ${stateText}${qText} → blocked duplicate (error thrown)`)
+        break
+      case 'latest':
+        log('info', `${prefix} — newest dispatch wins → superseded ${queued} queued execution(s)${hasRunning ? ` (${options.running} still running)` : ''}`)
         break
     }
     return
@@ -250,18 +1124,41 @@ function logDedupe(
   const threshold = options.thresholdMillis ?? 0
   switch (mode) {
     case 'share':
-      console.info(`${prefix} — last execution finished ${delta} ms ago (<${threshold} ms) → mode='share' acts like 'drop' (no in-flight promise) → ignored duplicate (returned undefined)`)
+      if (options.cache === 'hit') {
+        log('info', `${prefix} — last execution finished ${delta} ms ago (<${threshold} ms) → returned the cached result of the last execution`)
+      } else if (options.cache === 'miss') {
+        log('info', `${prefix} — last execution finished ${delta} ms ago (<${threshold} ms) → no cached result → starting another execution`)
+      } else {
+        log('info', `${prefix} — last execution finished ${delta} ms ago (<${threshold} ms) → mode='share' acts like 'drop' (no in-flight promise) → ignored duplicate (returned undefined)`)
+      }
       break
     case 'drop':
-      console.info(`${prefix} — last execution finished ${delta} ms ago (<${threshold} ms) → ignored duplicate (returned undefined)`)
+      log('info', `${prefix} — last execution finished ${delta} ms ago (<${threshold} ms) → ignored duplicate (returned undefined)`)
       break
     case 'warn':
-      console.warn(`${prefix} — last execution finished ${delta} ms ago (<${threshold} ms) → starting another execution (duplicate)`)
+      log('warn', `${prefix} — last execution finished ${delta} ms ago (<${threshold} ms) → starting another execution (duplicate)`)
       break
     case 'block':
-      console.error(`${prefix} — last execution finished ${delta} ms ago (<${threshold} ms) → blocked duplicate (error thrown)`)
+      log('error', `${prefix} — last execution finished ${delta} ms ago (<${threshold} ms) → blocked duplicate (error thrown)`)
+      break
+    case 'latest':
+      log('info', `${prefix} — last execution finished ${delta} ms ago (<${threshold} ms) → nothing to supersede → starting another execution`)
+      break
+    case 'debounce':
+      log('info', `${prefix} — last execution finished ${delta} ms ago (<${threshold} ms) → debounced (runs once repeats stop for ${threshold} ms)`)
       break
+    case 'throttle':
+      log('info', `${prefix} — last execution finished ${delta} ms ago (<${threshold} ms) → throttled (shares the next run, at most one per ${threshold} ms)`)
+      break
+  }
+}
+
+/** Surfaces a blocked duplicate as configured: thrown synchronously or as a rejected promise. */
+function blockDuplicate(policy: ActionPolicy, error: DuplicateDispatchError): Promise<never> {
+  if (policy.block === 'reject') {
+    return Promise.reject(error)
   }
+  throw error
 }
 
 //#endregion
@@ -317,121 +1214,518 @@ function orderKeysDeep(value: any): any {
 }
 
 /**
- * Builds a dedupe key for (namespace + action + payload).
+ * Applies a declarative `pick`/`omit` selector to the top-level payload fields.
+ * Non-object payloads (strings, numbers, arrays) are used as they are.
  *
- * Default strategy:
- * - Uses a stable JSON stringify of `payload` (sorted keys).
- * - Two calls with the same namespace/action and structurally identical payloads
- *   will collide and be deduped according to the configured modes.
+ * @example
+ * selectPayloadFields({ id: 1, timestamp: 5 }, { omit: ['timestamp'] }) // → { id: 1 }
  */
-function buildDeduplicationKey(namespace: string, action: string, payload: any): string {
-  const base = (namespace || '__root__/') + '|' + action
-  const payloadKey = stableStringify(payload)
-  return `${base}|payload=${payloadKey}`
-}
-
+function selectPayloadFields(payload: any, selector: {pick: string[]} | {omit: string[]}): any {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return payload
+  }
+  const out: Record<string, any> = {}
+  if ('pick' in selector) {
+    for (const field of selector.pick) {
+      if (field in payload) {
+        out[field] = payload[field]
+      }
+    }
+    return out
+  }
+  for (const field of Object.keys(payload)) {
+    if (!selector.omit.includes(field)) {
+      out[field] = payload[field]
+    }
+  }
+  return out
+}
+
+/**
+ * Builds a dedupe key for (namespace + action + payload), or `null` if the call opts out of dedupe.
+ *
+ * Default strategy:
+ * - Uses a stable JSON stringify of `payload` (sorted keys).
+ * - Two calls with the same namespace/action and structurally identical payloads
+ *   will collide and be deduped according to the configured modes.
+ *
+ * A `strategy` replaces the payload part (see `DedupeKeyStrategy`); the namespace/action part is kept.
+ */
+function buildDeduplicationKey(parsed: ParsedType, payload: any, strategy?: DedupeKeyStrategy): string | null {
+  const base = (parsed.namespace || '__root__/') + '|' + parsed.action
+  if (typeof strategy === 'function') {
+    const customKey = strategy(parsed, payload)
+    return customKey === null ? null : `${base}|key=${customKey}`
+  }
+  const payloadKey = stableStringify(strategy ? selectPayloadFields(payload, strategy) : payload)
+  return `${base}|payload=${payloadKey}`
+}
+
+//#endregion
+
+//#region Queue wait limits (timeout / abort) — @internal
+
+/**
+ * Combines `maxWaitMillis`, the caller's AbortSignal and (if `cancellable`) `cancel()` into one
+ * signal for the lock queue. The signal aborts with the typed error the queued dispatch is rejected with.
+ * Returns `null` if none applies; call `dispose()` once the lock is acquired.
+ */
+function createWaitSignal(
+  clock: MutexClock,
+  maxWaitMillis: number | undefined,
+  callerSignal: AbortSignal | undefined,
+  errors: {timeout: () => Error; abort: (reason: unknown) => Error},
+  cancellable = false
+): {signal: AbortSignal; dispose: () => void; cancel: (error: Error) => void} | null {
+  const hasTimeout = maxWaitMillis !== undefined && Number.isFinite(maxWaitMillis)
+  if (!hasTimeout && !callerSignal && !cancellable) {
+    return null
+  }
+
+  const controller = new AbortController()
+  const timer = hasTimeout ? clock.setTimeout(() => controller.abort(errors.timeout()), maxWaitMillis) : null
+  const onCallerAbort = () => controller.abort(errors.abort(callerSignal!.reason))
+  callerSignal?.addEventListener('abort', onCallerAbort, {once: true})
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      if (timer) {
+        clock.clearTimeout(timer)
+      }
+      callerSignal?.removeEventListener('abort', onCallerAbort)
+    },
+    cancel: (error) => controller.abort(error),
+  }
+}
+
+//#endregion
+
+//#region Result cache — @internal
+
+type CachedResult = {
+  settledAt: number
+  result: PromiseSettledResult<any>
+}
+
+/** Records the outcome of `process` under `key` once it settles (evicting the oldest entries beyond `maxEntries`). */
+function rememberResult(state: MutexState, key: string, process: Promise<any>, cacheFailures: boolean, maxEntries: number) {
+  const store = (result: PromiseSettledResult<any>) => {
+    state.resultByKey.delete(key)
+    if (result.status === 'rejected' && !cacheFailures) {
+      return
+    }
+    state.resultByKey.set(key, {settledAt: state.clock.now(), result})
+    for (const oldestKey of state.resultByKey.keys()) {
+      if (state.resultByKey.size <= maxEntries) {
+        break
+      }
+      state.resultByKey.delete(oldestKey)
+    }
+  }
+  process.then(
+    (value) => store({status: 'fulfilled', value}),
+    (reason) => store({status: 'rejected', reason})
+  )
+}
+
+/** The cached result of `key` if it is younger than `ttlMillis` (expired entries are removed). */
+function readCachedResult(state: MutexState, key: string, ttlMillis: number): CachedResult | undefined {
+  const cached = state.resultByKey.get(key)
+  if (cached && state.clock.now() - cached.settledAt > ttlMillis) {
+    state.resultByKey.delete(key)
+    return undefined
+  }
+  return cached
+}
+
+/** A promise that settles like the cached execution did. */
+function replayResult({result}: CachedResult): Promise<any> {
+  return result.status === 'fulfilled' ? Promise.resolve(result.value) : Promise.reject(result.reason)
+}
+
+//#endregion
+
+//#region Debounce / throttle (deferred runs) — @internal
+
+/** A debounced/throttled quick repeat waiting for its window; all joined callers share `promise`. */
+type DeferredRun = {
+  mode: 'debounce' | 'throttle'
+  /** Latest dispatch arguments (`type`, `payload`, `options`) and caller hand-off. */
+  args: [type: any, payload: any, options: DispatchOptions | undefined]
+  caller: CallerHandOff | null
+  timer: unknown
+  promise: Promise<any>
+  resolve: (value: any) => void
+  reject: (error: unknown) => void
+}
+
+//#endregion
+
+//#region Latest-wins (superseding) — @internal
+
+/** A dispatch under the 'latest' mode that a newer dispatch of its group may supersede. */
+type LatestEntry = {
+  dispatchId: string
+  fullType: string
+  mutexKey: string
+  frame: DispatchFrame
+  /** Holds its lock (or runs unlocked) → can no longer be discarded, only signalled. */
+  started: boolean
+  /** Set once superseded; `result` is the newest dispatch's promise, `null` → reject with `error`. */
+  supersededBy: {error: DispatchSupersededError; result: Promise<any> | null} | null
+  /** Removes the entry's waiter from the lock queue. */
+  cancel: (error: Error) => void
+}
+
+function joinLatestGroup(state: MutexState, group: string | null, entry: LatestEntry | null) {
+  if (group === null || !entry) {
+    return
+  }
+  let entries = state.latestByGroup.get(group)
+  if (!entries) {
+    entries = new Set()
+    state.latestByGroup.set(group, entries)
+  }
+  entries.add(entry)
+}
+
+function leaveLatestGroup(state: MutexState, group: string | null, entry: LatestEntry | null) {
+  if (group === null || !entry) {
+    return
+  }
+  const entries = state.latestByGroup.get(group)
+  entries?.delete(entry)
+  if (entries?.size === 0) {
+    state.latestByGroup.delete(group)
+  }
+}
+
+/**
+ * Supersedes all older dispatches of `group` in favor of `newest`: queued ones leave the
+ * lock queue and settle with `result` (or reject), running ones are signalled if `abortRunning`.
+ * Returns how many were discarded (queued) and how many keep running.
+ */
+function supersedeOlder(
+  state: MutexState,
+  group: string,
+  newest: LatestEntry,
+  options: {result: Promise<any> | null; abortRunning: boolean}
+): {queued: number; running: number} {
+  const counts = {queued: 0, running: 0}
+  for (const entry of state.latestByGroup.get(group) ?? []) {
+    if (entry === newest || entry.supersededBy) {
+      continue
+    }
+    const error = new DispatchSupersededError({dispatchId: entry.dispatchId, fullType: entry.fullType, mutexKey: entry.mutexKey, supersededBy: newest.dispatchId})
+    if (entry.started) {
+      counts.running += 1
+      if (options.abortRunning) {
+        entry.frame.abortController?.abort(error)
+      }
+      continue
+    }
+    counts.queued += 1
+    entry.supersededBy = {error, result: options.result}
+    entry.cancel(error)
+  }
+  return counts
+}
+
+//#endregion
+
+//#region Deadlock detection (wait-for graph) — @internal
+
+/** A dispatch holding or waiting for a lock; its frame links it to its ancestors. */
+type LockClaim = {
+  dispatchId: string
+  fullType: string
+  mutexKey: string
+  access: LockAccess
+  /** Concurrency limit of the acquisition (default as in `DispatchLock`). */
+  maxConcurrent: number | undefined
+  frame: DispatchFrame
+}
+
+function addHolder(state: MutexState, claim: LockClaim) {
+  let holders = state.holdersByKey.get(claim.mutexKey)
+  if (!holders) {
+    holders = new Set()
+    state.holdersByKey.set(claim.mutexKey, holders)
+  }
+  holders.add(claim)
+}
+
+function removeHolder(state: MutexState, claim: LockClaim) {
+  const holders = state.holdersByKey.get(claim.mutexKey)
+  holders?.delete(claim)
+  if (holders?.size === 0) {
+    state.holdersByKey.delete(claim.mutexKey)
+  }
+}
+
+/** True if `ancestor` is `frame` or one of its (unsettled) ancestors. */
+function isWithin(frame: DispatchFrame | null, ancestor: DispatchFrame): boolean {
+  for (let current = frame; current; current = current.parent) {
+    if (current === ancestor) {
+      return true
+    }
+  }
+  return false
+}
+
+/** True if `waiter` fits in beside the current holders of its lock (below its `maxConcurrent`). */
+function hasFreeSlot(state: MutexState, waiter: LockClaim): boolean {
+  const holders = [...(state.holdersByKey.get(waiter.mutexKey) ?? [])]
+  const conflicting = holders.filter(({access}) => access !== waiter.access).length
+  const sharing = holders.length - conflicting
+  return conflicting === 0 && sharing < (waiter.maxConcurrent ?? defaultMaxConcurrent(waiter.access))
+}
+
+/**
+ * Returns the cycle `request` would close by waiting for its lock, or null.
+ *
+ * A holder cannot release its lock before its nested dispatches finish, so a holder waits
+ * for every lock its descendants are queued for. Starting at the requested lock, the search
+ * follows holder → queued descendant → lock it waits for → its holders …; reaching a holder
+ * among the requesting dispatch's ancestors closes the cycle. A waiter with a free slot
+ * beside the holders (`maxConcurrent`) does not wait for them.
+ */
+function findDeadlock(state: MutexState, request: LockClaim): DeadlockStep[] | null {
+  const visitedKeys = new Set<string>()
+  const visit = (waiter: LockClaim, path: DeadlockStep[]): DeadlockStep[] | null => {
+    if (visitedKeys.has(waiter.mutexKey)) {
+      return null
+    }
+    visitedKeys.add(waiter.mutexKey)
+    if (hasFreeSlot(state, waiter)) {
+      return null
+    }
+    const waits: DeadlockStep = {dispatchId: waiter.dispatchId, fullType: waiter.fullType, mutexKey: waiter.mutexKey, relation: 'waits-for'}
+    // No free slot → holders are all readers or all writers, and each one blocks the waiter
+    for (const holder of state.holdersByKey.get(waiter.mutexKey) ?? []) {
+      const holds: DeadlockStep = {dispatchId: holder.dispatchId, fullType: holder.fullType, mutexKey: holder.mutexKey, relation: 'holds'}
+      if (isWithin(request.frame.parent, holder.frame)) {
+        return [...path, waits, holds]
+      }
+      for (const queued of state.waitingById.values()) {
+        if (isWithin(queued.frame, holder.frame)) {
+          const cycle = visit(queued, [...path, waits, holds])
+          if (cycle) {
+            return cycle
+          }
+        }
+      }
+    }
+    return null
+  }
+  return visit(request, [])
+}
+
+//#endregion
+
+//#region Lifecycle events — @internal
+
+type MutexEventListener = (event: MutexEvent) => void
+
+/** Event fields known once a dispatch is parsed (`at` is added per event). */
+type MutexEventFields = Omit<MutexEventBase, 'at'>
+
+/** Hook option per event type ('stuck' keeps calling `onStuck` with a plain `StuckActionEvent`). */
+const HOOK_BY_TYPE = {
+  queued: 'onQueued',
+  start: 'onStart',
+  reenter: 'onReenter',
+  finish: 'onFinish',
+  error: 'onError',
+  dedupe: 'onDedupe',
+  stuck: null,
+  retry: 'onRetry',
+} as const satisfies Record<MutexEventType, keyof MutexPluginOptions | null>
+
+/** Delivers each event to its hook option and all listeners; a throwing listener never breaks a dispatch. */
+function createEventEmitter(options: MutexPluginOptions, listenerSets: Set<MutexEventListener>[], log: LogWrite): MutexEventListener {
+  return (event) => {
+    const hookName = HOOK_BY_TYPE[event.type]
+    const hook = hookName ? (options[hookName] as MutexEventListener | undefined) : undefined
+    const listeners = listenerSets.flatMap((set) => [...set])
+    for (const listener of hook ? [hook, ...listeners] : listeners) {
+      try {
+        listener(event)
+      } catch (error) {
+        log('error', ` listener for "${event.type}" events failed`, {event: 'listener', dispatchId: event.dispatchId, fullType: event.fullType, error})
+      }
+    }
+  }
+}
+
 //#endregion
 
 //#region Health / batch utilities — @internal
 
-function trackDispatchStart(dispatchId: string) {
-  cancelHealthReport()
-  if (OPEN_OPERATIONS === 0) {
-    ACTIVE_BATCH += 1
-    BATCH_START_TOTAL = TOTAL_OPERATIONS
-    BATCH_IDS = []
+function trackDispatchStart(state: MutexState, dispatch: DispatchSnapshot) {
+  cancelHealthReport(state)
+  if (state.openOperations === 0) {
+    state.activeBatch += 1
+    state.batchStartTotal = state.totalOperations
+    state.batchIds = []
   }
-  OPEN_OPERATIONS += 1
-  TOTAL_OPERATIONS += 1
-  BATCH_IDS.push(dispatchId)
-  STARTED_IDS.add(dispatchId)
+  state.openOperations += 1
+  state.totalOperations += 1
+  state.batchIds.push(dispatch.dispatchId)
+  state.startedCount += 1
+  state.activeById.set(dispatch.dispatchId, dispatch)
 }
 
-function onQueued(dispatchId: string) {
-  trackDispatchStart(dispatchId)
+function onQueued(state: MutexState, dispatch: DispatchSnapshot) {
+  trackDispatchStart(state, dispatch)
 }
 
 /**
- * Convenience: call when a reentrant dispatch starts—i.e., a dispatch() invoked
- * from within another dispatch in the same namespace. Delegates to `trackDispatchStart`.
+ * Convenience: call when a dispatch starts without queuing—i.e., a reentrant dispatch() invoked
+ * from within another dispatch holding the same lock, or an action without a lock key.
+ * Delegates to `trackDispatchStart`.
  * Example: `colorScheme/initialize` → dispatches `colorScheme/readPreference`.
  */
-function onReenterStart(dispatchId: string) {
-  trackDispatchStart(dispatchId)
+function onReenterStart(state: MutexState, dispatch: DispatchSnapshot) {
+  trackDispatchStart(state, dispatch)
 }
 
 /**
  * Marks a dispatch as finished, updates counters, and—if all queues are drained—
  * logs a batch summary and schedules a deferred health report.
  */
-function onFinish(dispatchId: string) {
-  DONE_IDS.add(dispatchId)
+function onFinish(state: MutexState, dispatchId: string) {
+  state.doneCount += 1
+  state.activeById.delete(dispatchId)
+  settleIdleWaiters(state)
 
-  if (OPEN_OPERATIONS > 0) {
-    OPEN_OPERATIONS -= 1
+  if (state.openOperations > 0) {
+    state.openOperations -= 1
   }
-  if (OPEN_OPERATIONS === 0) {
-    const actionsInBatch = TOTAL_OPERATIONS - BATCH_START_TOTAL
-    if (DEBUG_GATE) {
-      console.info(`[vuex-mutex] ✅ All queues drained — batch #${ACTIVE_BATCH} ` + `(actions in batch: ${actionsInBatch}, ids: [${BATCH_IDS.join(', ')}], total actions: ${TOTAL_OPERATIONS})`)
+  if (state.openOperations === 0) {
+    const actionsInBatch = state.totalOperations - state.batchStartTotal
+    if (state.debug) {
+      state.log('debug', ` ✅ All queues drained — batch #${state.activeBatch} ` + `(actions in batch: ${actionsInBatch}, ids: [${state.batchIds.join(', ')}], total actions: ${state.totalOperations})`, {
+        event: 'batch',
+        batch: state.activeBatch,
+        actionsInBatch,
+        ids: [...state.batchIds],
+        totalActions: state.totalOperations,
+      })
+      scheduleHealthReport(state, HEALTH_IDLE_MILLIS)
     }
-    scheduleHealthReport(HEALTH_IDLE_MILLIS)
   }
 }
 
-/**
- * Emits a one-line health snapshot to the console (started/done/ok/error/pending)
- * and returns the same data for potential programmatic use.
- */
-function reportDispatchHealth() {
-  const pending: string[] = []
-  for (const id of STARTED_IDS) {
-    if (!DONE_IDS.has(id)) {
-      pending.push(id)
+/** A `whenIdle` call waiting for the store (or one namespace) to settle. */
+type IdleWaiter = {
+  /** Namespace prefix ("deal/"); null → the whole store. */
+  namespace: string | null
+  resolve: () => void
+}
+
+/** Dispatches of `namespace` (and its nested namespaces) that are queued or running. */
+function pendingDispatches(state: MutexState, namespace: string | null): DispatchSnapshot[] {
+  return [...state.activeById.values()].filter(({fullType}) => namespace === null || fullType.startsWith(namespace))
+}
+
+/** True when nothing of `namespace` is queued, running or scheduled (debounce/throttle). */
+function isIdle(state: MutexState, namespace: string | null): boolean {
+  if (pendingDispatches(state, namespace).length > 0) {
+    return false
+  }
+  // Dedupe keys start with the namespace (see `buildDeduplicationKey`)
+  return ![...state.deferredByKey.keys()].some((key) => namespace === null || key.startsWith(namespace))
+}
+
+function settleIdleWaiters(state: MutexState) {
+  for (const waiter of state.idleWaiters) {
+    if (isIdle(state, waiter.namespace)) {
+      state.idleWaiters.delete(waiter)
+      waiter.resolve()
     }
   }
+}
+
+/** Current counters and pending dispatch ids. */
+function computeDispatchHealth(state: MutexState): DispatchHealth {
+  return {
+    totalStarted: state.startedCount,
+    totalDone: state.doneCount,
+    totalSucceeded: Math.max(0, state.doneCount - state.erroredCount),
+    totalErrored: state.erroredCount,
+    totalRetried: state.retriedCount,
+    pendingIds: [...state.activeById.keys()],
+  }
+}
 
-  const totalStarted = STARTED_IDS.size
-  const totalDone = DONE_IDS.size
-  const totalErrored = ERROR_OCCURRED_IDS.size
-  const totalSucceeded = Math.max(0, totalDone - totalErrored)
+/**
+ * Logs a one-line health snapshot (started/done/ok/error/retried/pending)
+ * and returns the same data for potential programmatic use.
+ */
+function reportDispatchHealth(state: MutexState): DispatchHealth {
+  const health = computeDispatchHealth(state)
+  const {totalStarted, totalDone, totalSucceeded, totalErrored, totalRetried, pendingIds: pending} = health
 
-  const message = `[vuex-mutex] HEALTH — started=${totalStarted}, done=${totalDone}, ok=${totalSucceeded}, error=${totalErrored}, pending=${pending.length}`
+  const message = ` HEALTH — started=${totalStarted}, done=${totalDone}, ok=${totalSucceeded}, error=${totalErrored}, retried=${totalRetried}, pending=${pending.length}`
 
-  if (DEBUG_GATE) {
+  if (state.debug) {
+    const fields: LogFields = {event: 'health', totalStarted, totalDone, totalSucceeded, totalErrored, totalRetried, pendingIds: pending}
     if (pending.length === 0) {
-      console.info(`${message} — all started dispatches finished.`)
+      state.log('info', `${message} — all started dispatches finished.`, fields)
     } else {
-      console.warn(`${message} — pending IDs: [${pending.join(', ')}]`)
+      state.log('warn', `${message} — pending IDs: [${pending.join(', ')}]`, fields)
     }
   }
 
-  return {
-    totalStarted,
-    totalDone,
-    totalSucceeded,
-    totalErrored,
-    pendingIds: pending,
-  }
+  return health
 }
 
-function scheduleHealthReport(delayMillis: number) {
-  if (HEALTH_TIMER) {
-    clearTimeout(HEALTH_TIMER)
+function scheduleHealthReport(state: MutexState, delayMillis: number) {
+  if (state.healthTimer) {
+    state.clock.clearTimeout(state.healthTimer)
   }
-  HEALTH_TIMER = setTimeout(() => {
-    HEALTH_TIMER = null
-    reportDispatchHealth()
+  state.healthTimer = state.clock.setTimeout(() => {
+    state.healthTimer = null
+    reportDispatchHealth(state)
   }, delayMillis)
 }
 
-function cancelHealthReport() {
-  if (HEALTH_TIMER) {
-    clearTimeout(HEALTH_TIMER)
-    HEALTH_TIMER = null
+function cancelHealthReport(state: MutexState) {
+  if (state.healthTimer) {
+    state.clock.clearTimeout(state.healthTimer)
+    state.healthTimer = null
   }
 }
 
+/** Groups the queued and running dispatches by lock key. */
+function snapshotDispatches(state: MutexState): MutexSnapshot {
+  const locks = new Map<string, LockSnapshot>()
+  const unlocked: DispatchSnapshot[] = []
+  for (const dispatch of state.activeById.values()) {
+    if (dispatch.mutexKey === null) {
+      unlocked.push({...dispatch})
+      continue
+    }
+    let lock = locks.get(dispatch.mutexKey)
+    if (!lock) {
+      lock = {mutexKey: dispatch.mutexKey, running: [], queued: []}
+      locks.set(dispatch.mutexKey, lock)
+    }
+    ;(dispatch.startedAt === null ? lock.queued : lock.running).push({...dispatch})
+  }
+  return {at: state.clock.now(), locks: [...locks.values()], unlocked, inFlightKeys: [...state.inFlightByKey.keys()]}
+}
+
+function resetDispatchStats(state: MutexState) {
+  state.startedCount = state.activeById.size
+  state.doneCount = 0
+  state.erroredCount = 0
+  state.retriedCount = 0
+  state.metrics?.reset()
+}
+
 //#endregion
 
 /**
@@ -441,106 +1735,385 @@ function cancelHealthReport() {
  *
  * Note:
  *  * - In Vitest runs, `process.env.VITEST` is truthy by default.
- *  *   → Plugin would be disabled to avoid noisy logs and failing specs.
- *  * - In the dedicated plugin tests we stub `VITEST=''` to force the plugin on.
+ *  *   → With `enabled: 'auto'` (default) the plugin is disabled to avoid noisy logs and failing specs.
+ *  * - Pass `enabled: true` to exercise locking and dedupe in tests (see `@iits-consulting/vuex-mutex/testing`).
  */
-export function createVuexMutexPlugin(mutexPluginOptions: MutexPluginOptions = {}): Plugin<any> {
+export function createVuexMutexPlugin(mutexPluginOptions: MutexPluginOptions = {}): VuexMutexPlugin {
+  const {enabled = 'auto'} = mutexPluginOptions
   const IS_VITEST = typeof process !== 'undefined' && !!process.env?.VITEST
-  if (IS_VITEST) {
-    return () => {}
+  if (enabled === false || (enabled === 'auto' && IS_VITEST)) {
+    return Object.assign(() => {}, {subscribe: () => () => {}})
   }
 
   //#region Defaults & logging flags
-  const {include, exclude, dedupe, noDedupe} = mutexPluginOptions
+  for (const rule of mutexPluginOptions.rules ?? []) {
+    if (rule.maxConcurrent !== undefined && !(Number.isInteger(rule.maxConcurrent) && rule.maxConcurrent >= 1)) {
+      throw new Error(`[vuex-mutex] rule for ${String(rule.match)}: maxConcurrent must be a positive integer (got ${rule.maxConcurrent})`)
+    }
+  }
+
+  const priorityAgingMillis = mutexPluginOptions.priorityAgingMillis ?? 1000
+  const maxCachedResults = (mutexPluginOptions.dedupe?.cache || undefined)?.maxEntries ?? 100
 
-  // Defaults for dedupe
-  const inFlightMode: DedupeMode = dedupe?.inFlight ?? 'warn'
-  const quickRepeatMode: DedupeMode = dedupe?.quickRepeat ?? 'warn'
-  const thresholdMillis = dedupe?.thresholdMillis ?? 500
+  // Resolved policies per action type (options are fixed once the plugin is created)
+  const policyByType = new Map<string, ActionPolicy | null>()
+  const policyFor = (fullType: string): ActionPolicy | null => {
+    if (!policyByType.has(fullType)) {
+      policyByType.set(fullType, resolveActionPolicy(mutexPluginOptions, fullType))
+    }
+    return policyByType.get(fullType)!
+  }
 
   const IS_PROD = !!mutexPluginOptions.isProduction
   const ENABLE_DEBUG = !IS_PROD && !!mutexPluginOptions.debug
   const ENABLE_DEDUPE_LOGS = !IS_PROD
-  DEBUG_GATE = ENABLE_DEBUG
-  //#endregion
+  const ENABLE_STUCK_LOGS = !IS_PROD
+  const ENABLE_DEADLOCK_LOGS = !IS_PROD
+  const deadlockMode = mutexPluginOptions.deadlock ?? 'log'
 
-  //#region Per-namespace mutex registry
-  // One mutex per module/namespace
-  const mutexByNamespace = new Map<string, Mutex>()
-  //#endregion
+  const log = createLogWrite(mutexPluginOptions.logger ?? createConsoleLogger(), mutexPluginOptions.logLevel ?? 'debug')
+  const logThrottleMillis = mutexPluginOptions.logThrottleMillis ?? LOG_THROTTLE_MILLIS
+  const clock = mutexPluginOptions.clock ?? SYSTEM_CLOCK
 
-  //#region Dedupe state (per namespace+action+payload)
-  // key: generated via buildDeduplicationKey(...), may include payload sensitivity
-  const inFlightByKey = new Map<string, Promise<any>>()
-  const lastDoneAtByKey = new Map<string, number>()
+  // Subscribers to the lifecycle events of all stores this plugin is installed into
+  const listeners = new Set<MutexEventListener>()
   //#endregion
 
-  return (store: Store<any>) => {
+  const plugin = (store: Store<any>) => {
     //#region Install wrapper around dispatch
+    const vuexDispatch = store.dispatch
     const originalDispatch = store.dispatch.bind(store)
 
     // prevent double wrapping
     if ((store.dispatch as any)[WRAPPED]) {
       return
     }
-    //#endregion
 
-    //#region Helper: resolve (and create) mutex for a given fullType/namespace
-    /** Returns the per-namespace mutex (creates on first use) or null if out of scope (include/exclude). */
-    function getMutexFor(fullType: string, namespace: string): Mutex | null {
-      if (include && !matches(include, fullType)) {
-        return null
+    // Everything below is scoped to this store (mutexes per lock key, dedupe maps, counters, health)
+    // Once the devtools are attached, the trace lines go to their timeline instead of the logger
+    let devtoolsAttached = false
+    const storeLog: LogWrite = (level, message, fields) => {
+      if (!(devtoolsAttached && level === 'debug')) {
+        log(level, message, fields)
       }
-      if (exclude && matches(exclude, fullType)) {
-        return null
+    }
+    const metricsOptions = mutexPluginOptions.metrics ?? true
+    const metrics = metricsOptions === false ? null : metricsOptions === true ? createMetricsRecorder(undefined, clock) : createMetricsRecorder(metricsOptions.bucketsMillis, clock, metricsOptions.maxLockKeys)
+    const traceOptions = mutexPluginOptions.trace ?? false
+    const trace = traceOptions === false ? null : createTraceRecorder(traceOptions === true ? undefined : traceOptions.capacity, clock)
+    const state = createMutexState({debug: ENABLE_DEBUG, log: storeLog, logThrottleMillis, clock, metrics, trace})
+    STATE_BY_STORE.set(store, state)
+    const {mutexByKey, inFlightByKey, lastDoneAtByKey, queuedCountByKey, runningCountByKey} = state
+    // Lifecycle events of this store go to the plugin's subscribers, its metrics, trace and devtools
+    const storeListeners = new Set<MutexEventListener>([metrics?.record, trace?.record].filter((record) => record !== undefined))
+    const emit = createEventEmitter(mutexPluginOptions, [listeners, storeListeners], storeLog)
+
+    // Cross-tab mode: other tabs' finished dispatches start the quick-repeat window here as well
+    const crossTabOptions = mutexPluginOptions.crossTab
+    const crossTabTransport = crossTabOptions && (crossTabOptions.transport === undefined ? createBroadcastTransport() : crossTabOptions.transport)
+    state.crossTab = crossTabTransport
+      ? createCrossTabClient(crossTabTransport, {
+          clock,
+          leaseMillis: crossTabOptions!.leaseMillis ?? 5000,
+          claimMillis: crossTabOptions!.claimMillis ?? 50,
+          onRemoteDone: (dedupeKey) => lastDoneAtByKey.set(dedupeKey, clock.now()),
+        })
+      : null
+    const isCrossTab = (lockKey: string | null) => state.crossTab !== null && lockKey !== null && matches(crossTabOptions!.lockKeys, lockKey)
+
+    // Vuex 4: register the devtools once the store is installed into an app (`app.use(store)`)
+    const originalInstall = (store as any).install
+    if (mutexPluginOptions.devtools && typeof originalInstall === 'function') {
+      ;(store as any).install = function (this: Store<any>, app: unknown, ...args: any[]) {
+        const result = originalInstall.call(this, app, ...args)
+        const source: DevtoolsSource = {
+          snapshot: () => snapshotDispatches(state),
+          subscribe: (listener) => {
+            storeListeners.add(listener)
+            return () => storeListeners.delete(listener)
+          },
+        }
+        setupMutexDevtools(app, source, () => (devtoolsAttached = true)).catch((error) => log('warn', ' devtools integration failed to load', {event: 'devtools', error}))
+        return result
       }
+    }
 
-      const key = namespace || '__root__'
-      let mutex = mutexByNamespace.get(key)
+    // Module (un)registration and hot updates rebuild module contexts → bind the new ones as well
+    for (const method of ['registerModule', 'unregisterModule', 'hotUpdate'] as const) {
+      const originalMethod = (store as any)[method]
+      if (typeof originalMethod !== 'function') {
+        continue
+      }
+      ;(store as any)[method] = function (this: Store<any>, ...args: any[]) {
+        const result = originalMethod.apply(this, args)
+        bindModuleContexts(store, state, vuexDispatch)
+        return result
+      }
+    }
+    //#endregion
+
+    //#region Helper: resolve (and create) mutex for a given lock key
+    /** Returns the lock of a lock key (creates on first use). */
+    function getMutexFor(mutexKey: string): DispatchLock {
+      let mutex = mutexByKey.get(mutexKey)
       if (!mutex) {
-        mutex = new Mutex()
-        mutexByNamespace.set(key, mutex)
+        mutex = new DispatchLock(priorityAgingMillis, clock)
+        mutexByKey.set(mutexKey, mutex)
       }
       return mutex
     }
+
+    /** Discards the lock of a lock key once nobody holds or waits for it (payload-derived keys come and go). */
+    function pruneMutex(mutexKey: string, mutex: DispatchLock) {
+      if (mutex.isIdle() && mutexByKey.get(mutexKey) === mutex) {
+        mutexByKey.delete(mutexKey)
+      }
+    }
+
+    /** Acquires the lock of `lockKey` in this store, then (cross-tab mode) across tabs. */
+    async function acquireLock(lockKey: string, request: LockRequest): Promise<LockRelease> {
+      const mutex = getMutexFor(lockKey)
+      let releaseLocal: LockRelease
+      try {
+        releaseLocal = await mutex.acquire(request)
+      } catch (error) {
+        // Left the queue (timeout, abort) → maybe the last one interested in this lock
+        pruneMutex(lockKey, mutex)
+        throw error
+      }
+      const release = () => {
+        releaseLocal()
+        pruneMutex(lockKey, mutex)
+      }
+      if (!isCrossTab(lockKey)) {
+        return release
+      }
+      try {
+        const releaseAcrossTabs = await state.crossTab!.acquire(lockKey, request.signal)
+        return () => {
+          releaseAcrossTabs()
+          release()
+        }
+      } catch (error) {
+        release()
+        throw error
+      }
+    }
+    //#endregion
+
+    //#region Helper: result cache
+    /** Caches the outcome of `process` if the policy reuses results of its key. */
+    function cacheResultOf(deduplicationKey: string | null, process: Promise<any>, policy: ActionPolicy) {
+      if (deduplicationKey !== null && policy.cache && (policy.quickRepeat === 'share' || policy.cache.staleWhileRevalidate)) {
+        rememberResult(state, deduplicationKey, process, policy.cache.cacheFailures, maxCachedResults)
+      }
+    }
+    //#endregion
+
+    //#region Helper: debounce / throttle — defer quick repeats
+    /**
+     * Defers a quick repeat, or joins the deferred run already pending for `key` (latest arguments win).
+     * 'debounce' restarts the window with every repeat; 'throttle' runs `thresholdMillis` after the last finish.
+     */
+    function deferRun(key: string, mode: 'debounce' | 'throttle', thresholdMillis: number, args: DeferredRun['args'], caller: CallerHandOff | null): Promise<any> {
+      let deferred = state.deferredByKey.get(key)
+      if (deferred) {
+        deferred.args = args
+        deferred.caller = caller
+      } else {
+        let settle!: Pick<DeferredRun, 'resolve' | 'reject'>
+        const promise = new Promise<any>((resolve, reject) => (settle = {resolve, reject}))
+        deferred = {mode, args, caller, timer: null, promise, ...settle}
+        state.deferredByKey.set(key, deferred)
+      }
+
+      if (deferred.mode === 'debounce' || !deferred.timer) {
+        if (deferred.timer) {
+          clock.clearTimeout(deferred.timer)
+        }
+        const lastDoneAt = lastDoneAtByKey.get(key) ?? clock.now()
+        const delay = deferred.mode === 'debounce' ? thresholdMillis : Math.max(0, lastDoneAt + thresholdMillis - clock.now())
+        const run = deferred
+        deferred.timer = clock.setTimeout(() => runDeferred(key, run), delay)
+      }
+      return deferred.promise
+    }
+
+    /** Dispatches the latest arguments of a deferred run (through the lock) and settles its callers. */
+    function runDeferred(key: string, deferred: DeferredRun) {
+      state.deferredByKey.delete(key)
+      const [type, payload, options] = deferred.args
+      const handOff: CallerHandOff = {frame: deferred.caller?.frame ?? null, options: deferred.caller?.options, deferred: true}
+      try {
+        const result = runFromCaller(state, handOff, () => store.dispatch(type, payload, options))
+        Promise.resolve(result).then(deferred.resolve, deferred.reject)
+      } catch (error) {
+        // e.g. 'block' in-flight mode throws synchronously
+        deferred.reject(error)
+      }
+      // The run may have been answered without queuing (e.g. shared with an in-flight dispatch)
+      settleIdleWaiters(state)
+    }
+    //#endregion
+
+    //#region Helper: retries with backoff
+    const sleep = (millis: number) => new Promise<void>((resolve) => clock.setTimeout(resolve, millis))
+
+    /** Like `sleep`, but rejects with `abortError(reason)` as soon as `signal` aborts. */
+    const sleepUnlessAborted = (millis: number, signal: AbortSignal | undefined, abortError: (reason: unknown) => Error) =>
+      new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(abortError(signal.reason))
+          return
+        }
+        const onAbort = () => {
+          clock.clearTimeout(timer)
+          reject(abortError(signal!.reason))
+        }
+        const timer = clock.setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve()
+        }, millis)
+        signal?.addEventListener('abort', onAbort, {once: true})
+      })
+
+    /**
+     * Runs `attempt` until it succeeds, its error is not retryable or the retries are used up.
+     * `pause(delayMillis)` waits out the backoff (and gives the lock back meanwhile with `lock: 'release'`).
+     */
+    async function runWithRetries<T>(
+      attempt: () => Promise<T>,
+      retry: RetryPolicy | null,
+      frame: DispatchFrame,
+      fields: MutexEventFields,
+      log: (level: LogLevel, event: string, message: string, fields?: Omit<LogFields, 'event'>) => void,
+      pause: (delayMillis: number) => Promise<void>
+    ): Promise<T> {
+      for (let attempts = 1; ; attempts++) {
+        try {
+          return await attempt()
+        } catch (error) {
+          if (!retry || attempts > retry.retries || isVuexMutexError(error) || frame.abortController?.signal.aborted || (retry.retryIf && !retry.retryIf(error, attempts))) {
+            throw error
+          }
+          const delayMillis = retryDelayMillis(retry, attempts)
+          state.retriedCount += 1
+          if (ENABLE_DEBUG) {
+            log('warn', 'retry', ` ↺ RETRY ${fields.fullType} (${attempts}/${retry.retries} in ${delayMillis} ms)`, {error, attempt: attempts, delayMillis})
+          }
+          emit({...fields, at: clock.now(), type: 'retry', attempt: attempts, retries: retry.retries, delayMillis, error})
+          await pause(delayMillis)
+        }
+      }
+    }
+    //#endregion
+
+    //#region Helper: report an applied dedupe mode (event + throttled log)
+    function reportDedupe(
+      fields: MutexEventFields,
+      phase: 'IN-FLIGHT' | 'QUICK-REPEAT',
+      mode: QuickRepeatMode,
+      logKey: string,
+      details: Parameters<typeof logDedupe>[5] & {thresholdMillis: number}
+    ) {
+      emit({...fields, at: clock.now(), type: 'dedupe', phase, mode, deltaMillis: details.deltaMillis ?? null, thresholdMillis: details.thresholdMillis})
+      if (ENABLE_DEDUPE_LOGS) {
+        logDedupe(state, phase, mode, fields.fullType, logKey, details)
+      }
+    }
+    //#endregion
+
+    //#region Helper: 'latest' mode — supersede the older dispatches of a group
+    /** Lets `entry` (whose promise is `result`) supersede the older dispatches of `group`. */
+    function supersedeGroup(group: string, entry: LatestEntry, result: Promise<any>, policy: ActionPolicy, fields: MutexEventFields) {
+      const counts = supersedeOlder(state, group, entry, {result: policy.superseded === 'resolve' ? result : null, abortRunning: policy.abortSuperseded})
+      if (counts.queued + counts.running > 0) {
+        reportDedupe(fields, 'IN-FLIGHT', 'latest', group, {...counts, thresholdMillis: policy.thresholdMillis})
+      }
+    }
     //#endregion
 
     //#region Overridden dispatch (serialization + dedupe)
     /** Wrapped dispatch: serialization + dedupe + reentrancy handling. Wrapped once per store. */
     store.dispatch = ((type: any, payload?: any, options?: DispatchOptions) => {
       //#region Parse & preflight
-      const {fullType, namespace, action} = parseType(type)
+      const caller = takeCaller(state)
+      // No context hand-off: a dispatch made while an action handler runs synchronously (`this.dispatch`,
+      // an imported `store.dispatch` before the first `await`) is nested in that action
+      const parentFrame = caller?.frame ?? state.startingFrame
+      const parsed = parseType(type)
+      const {fullType} = parsed
       if (!fullType) {
         // Fallback: pass through unchanged
         return originalDispatch(type as any, payload, options)
       }
 
-      const effectivePayload = extractPayload(type, payload)
-      const deduplicationKey = buildDeduplicationKey(namespace, action, effectivePayload)
-      const mutex = getMutexFor(fullType, namespace)
-      const run = () => originalDispatch(type as any, payload, options)
+      const policy = policyFor(fullType)
 
-      // Not within the scope of the plugin? → Do not serialize/no deduplication
-      if (!mutex) {
-        return run()
+      // Not within the scope of the plugin? → Do not serialize/no deduplication (but keep the causal chain)
+      if (!policy) {
+        const passThroughFrame: DispatchFrame = {mutexKey: null, parent: parentFrame, settled: false}
+        return runStarting(state, passThroughFrame, () => originalDispatch(type as any, payload, options))
       }
 
-      const queuedAt = Date.now()
-      const dispatchId = String(DISPATCH_SEQUENCE++).padStart(2, '0')
-      const mutexKey = namespace || '__root__'
-      const skipDedupe = matches(noDedupe, fullType)
-      const isReenter = namespaceIsActive(mutexKey)
+      const queuedAt = clock.now()
+      const dispatchId = String(state.dispatchSequence++).padStart(2, '0')
+      // Object-style dispatch: `dispatch({ type, ... }, options)` → the second argument holds the options
+      const isObjectStyle = typeof type === 'object'
+      const effectivePayload = extractPayload(type, isObjectStyle ? undefined : payload)
+      // `null` lock key → this call runs without a mutex (but is still deduped)
+      const lockKey = resolveLockKey(policy.lockKey, parsed, effectivePayload)
+      const mutexKey = lockKey ?? '(none)'
+      const {inFlight: inFlightMode, quickRepeat: quickRepeatMode, thresholdMillis} = policy
+      const dispatchOptions: DispatchOptions | undefined = (isObjectStyle ? payload : options) ?? caller?.options
+      const priority = dispatchOptions?.priority ?? policy.priority
+      const maxWaitMillis = dispatchOptions?.maxWaitMillis ?? policy.maxWaitMillis
+      const callerSignal = dispatchOptions?.signal
+      // `null` key → this call skips dedupe (but still runs through the mutex)
+      const deduplicationKey = policy.dedupe ? buildDeduplicationKey(parsed, effectivePayload, policy.key) : null
+      // Cross-tab mode: dedupe also sees the dispatches of the other tabs
+      const sharedDedupe = deduplicationKey !== null && crossTabOptions?.dedupe !== false && isCrossTab(lockKey)
+      const eventFields: MutexEventFields = {dispatchId, parentId: ancestorDispatchId(parentFrame), fullType, namespace: parsed.namespace, mutexKey: lockKey, dedupeKey: deduplicationKey}
+
+      // Aborted before it was even dispatched → never queue it
+      if (callerSignal?.aborted) {
+        const error = new DispatchAbortedError({dispatchId, fullType, mutexKey: lockKey, reason: callerSignal.reason})
+        emit({...eventFields, at: clock.now(), type: 'error', error, started: false})
+        return Promise.reject(error)
+      }
+      // 'latest' → this dispatch supersedes older ones of its group (same dedupe key or same action)
+      const latestGroup = deduplicationKey !== null && inFlightMode === 'latest' ? (policy.latestBy === 'action' ? fullType : deduplicationKey) : null
+      const isReenter = lockKey !== null && isHeldByAncestor(parentFrame, lockKey)
+      const frame: DispatchFrame = {mutexKey: lockKey, parent: parentFrame, settled: false, dispatchId}
+      const run = () => runStarting(state, frame, () => originalDispatch(type as any, payload, options))
+      /** Log line about this dispatch ("[#07] ▶ START …"). */
+      const log = (level: LogLevel, event: string, message: string, fields?: Omit<LogFields, 'event'>) =>
+        state.log(level, `[#${dispatchId}]${message}`, {event, dispatchId, fullType, mutexKey, ...fields})
+      /** Inspection entry of this dispatch (see `getVuexMutex`). */
+      const snapshotFields = (access: LockAccess) => ({dispatchId, fullType, mutexKey: lockKey, dedupeKey: deduplicationKey, access, priority, queuedAt})
       //#endregion
 
       //#region Dedupe checks (in-flight & quick-repeat)
-      if (!skipDedupe) {
+      // Stale-while-revalidate: the caller gets this cached result, the dispatch below refreshes it
+      let staleResult: CachedResult | undefined
+      if (deduplicationKey !== null) {
+        // ---------- DEDUPE: DEFERRED (debounce / throttle pending) ----------
+        const deferred = caller?.deferred ? undefined : state.deferredByKey.get(deduplicationKey)
+        if (deferred) {
+          const last = lastDoneAtByKey.get(deduplicationKey)
+          reportDedupe(eventFields, 'QUICK-REPEAT', deferred.mode, deduplicationKey, {deltaMillis: last === undefined ? undefined : clock.now() - last, thresholdMillis})
+          return deferRun(deduplicationKey, deferred.mode, thresholdMillis, [type, payload, options], caller)
+        }
+
         // ---------- DEDUPE: IN-FLIGHT ----------
-        const existing = inFlightByKey.get(deduplicationKey)
+        // In flight in another tab: 'share' waits for it to finish there and resolves undefined
+        const existing = inFlightByKey.get(deduplicationKey) ?? (sharedDedupe ? state.crossTab!.inFlightElsewhere(deduplicationKey) : undefined)
         if (existing) {
-          if (ENABLE_DEDUPE_LOGS) {
-            logDedupe('IN-FLIGHT', inFlightMode, fullType, deduplicationKey, {
+          if (inFlightMode !== 'latest') {
+            reportDedupe(eventFields, 'IN-FLIGHT', inFlightMode, deduplicationKey, {
               queued: queuedCountByKey.get(deduplicationKey) ?? 0,
               running: runningCountByKey.get(deduplicationKey) ?? 0,
+              thresholdMillis,
             })
           }
 
@@ -550,152 +2123,456 @@ export function createVuexMutexPlugin(mutexPluginOptions: MutexPluginOptions = {
             case 'drop':
               return Promise.resolve(undefined)
             case 'block':
-              throw new Error(`[vuex-mutex][IN-FLIGHT] action="${fullType}" → blocked duplicate`)
+              return blockDuplicate(policy, new DuplicateDispatchError({phase: 'IN-FLIGHT', fullType, dedupeKey: deduplicationKey, deltaMillis: null, thresholdMillis}))
             case 'warn':
+            case 'latest': // superseding happens once this dispatch is registered (see below)
               break
           }
         }
 
         // ---------- DEDUPE: QUICK-REPEAT ----------
-        const last = lastDoneAtByKey.get(deduplicationKey)
-        if (last && Date.now() - last <= thresholdMillis) {
-          const delta = Date.now() - last
-          if (ENABLE_DEDUPE_LOGS) {
-            logDedupe('QUICK-REPEAT', quickRepeatMode, fullType, deduplicationKey, {
-              deltaMillis: delta,
-              thresholdMillis,
-            })
-          }
+        // A deferred run has already waited out its window
+        const last = caller?.deferred ? undefined : lastDoneAtByKey.get(deduplicationKey)
+        if (last !== undefined && clock.now() - last <= thresholdMillis) {
+          const delta = clock.now() - last
+          const cached = quickRepeatMode === 'share' && policy.cache ? readCachedResult(state, deduplicationKey, policy.cache.ttlMillis) : undefined
+          reportDedupe(eventFields, 'QUICK-REPEAT', quickRepeatMode, deduplicationKey, {
+            deltaMillis: delta,
+            thresholdMillis,
+            cache: policy.cache ? (cached ? 'hit' : 'miss') : undefined,
+          })
 
           switch (quickRepeatMode) {
             case 'share':
+              if (cached) {
+                return replayResult(cached)
+              }
+              if (policy.cache) {
+                // Nothing to reuse (expired, evicted or an uncached failure) → run again
+                break
+              }
+              return Promise.resolve(undefined)
             case 'drop':
               return Promise.resolve(undefined)
             case 'block':
-              throw new Error(`[vuex-mutex][QUICK-REPEAT] action="${fullType}" → blocked duplicate (${delta} ms < ${thresholdMillis} ms)`)
+              return blockDuplicate(policy, new DuplicateDispatchError({phase: 'QUICK-REPEAT', fullType, dedupeKey: deduplicationKey, deltaMillis: delta, thresholdMillis}))
+            case 'debounce':
+            case 'throttle':
+              return deferRun(deduplicationKey, quickRepeatMode, thresholdMillis, [type, payload, options], caller)
             case 'warn':
+            case 'latest':
               break
           }
         }
+
+        // ---------- STALE-WHILE-REVALIDATE ----------
+        if (policy.cache?.staleWhileRevalidate) {
+          const cached = readCachedResult(state, deduplicationKey, policy.cache.ttlMillis)
+          if (cached?.result.status === 'fulfilled') {
+            staleResult = cached
+            if (ENABLE_DEBUG) {
+              log('debug', 'stale', ` ↻ STALE ${fullType} (cached ${clock.now() - cached.settledAt} ms ago) → returned cached result, refreshing in the background`)
+            }
+          }
+        }
+      }
+      //#endregion
+
+      //#region Deadlock detection (before the dispatch waits for its lock)
+      const claim: LockClaim | null = lockKey === null ? null : {dispatchId, fullType, mutexKey: lockKey, access: policy.access, maxConcurrent: policy.maxConcurrent, frame}
+      /** Looks for the cycle waiting for the lock would close; logs it. */
+      const detectDeadlock = (claim: LockClaim) => {
+        const cycle = deadlockMode === 'off' ? null : findDeadlock(state, claim)
+        if (cycle && ENABLE_DEADLOCK_LOGS) {
+          const outcome = deadlockMode === 'reject' ? 'rejected' : deadlockMode === 'reenter' ? 'running without its lock' : 'queued anyway'
+          log('warn', 'deadlock', ` ⚠ DEADLOCK ${fullType} (mutexKey: ${mutexKey}) → ${outcome}: ${formatDeadlockCycle(cycle)}`, {cycle})
+        }
+        return cycle
+      }
+      const deadlock = claim && !isReenter ? detectDeadlock(claim) : null
+      if (deadlock && deadlockMode === 'reject') {
+        const error = new DeadlockError({dispatchId, fullType, mutexKey, cycle: deadlock})
+        emit({...eventFields, at: clock.now(), type: 'error', error, started: false})
+        return Promise.reject(error)
       }
+      // 'reenter' → escapes the deadlock like a reentrant dispatch (without taking its lock)
+      const reentrant = isReenter || (deadlock !== null && deadlockMode === 'reenter')
       //#endregion
 
-      //#region Reentrancy path (no re-lock; still tracked & deduped)
-      if (isReenter) {
-        const startAt = Date.now()
+      //#region Unlocked path (reentrant or no lock key; no (re-)lock; still tracked & deduped)
+      if (reentrant || lockKey === null) {
+        const startAt = clock.now()
         const waitMillis = startAt - queuedAt
+        const note = isReenter ? 'reentrant' : deadlock ? 'deadlock escaped' : 'unlocked'
+        // Starts right away → can only be signalled, never discarded
+        const latestEntry: LatestEntry | null = latestGroup === null ? null : {dispatchId, fullType, mutexKey, frame, started: true, supersededBy: null, cancel: () => {}}
 
-        increaseRunning(deduplicationKey)
-        namespaceEnter(mutexKey)
+        increaseRunning(state, deduplicationKey)
+        joinLatestGroup(state, latestGroup, latestEntry)
+        onReenterStart(state, {...snapshotFields(policy.access), startedAt: startAt, reentrant})
 
         if (ENABLE_DEBUG) {
-          onReenterStart(dispatchId)
-          console.info(`%c[vuex-mutex][#${dispatchId}] ⤴ REENTER ${fullType} (mutexKey: ${mutexKey})`, 'color: #9C27B0;')
-          console.info(`%c[vuex-mutex][#${dispatchId}] ▶ START* ${fullType} (wait: ${waitMillis} ms, mutexKey: ${mutexKey}) (reentrant)`, 'color: #03A9F4;')
+          if (reentrant) {
+            log('debug', 'reenter', ` ⤴ REENTER ${fullType} (mutexKey: ${mutexKey})`)
+          }
+          log('debug', 'start', ` ▶ START* ${fullType} (wait: ${waitMillis} ms, mutexKey: ${mutexKey}) (${note})`, {waitMillis, note})
         }
+        if (reentrant) {
+          emit({...eventFields, at: startAt, type: 'reenter'})
+        }
+        emit({...eventFields, at: startAt, type: 'start', waitMillis, locked: false})
 
         const process = (async () => {
           let errorOccurred = false
           try {
-            return await run()
+            return await runWithRetries(run, policy.retry, frame, eventFields, log, sleep)
           } catch (error) {
             errorOccurred = true
-            ERROR_OCCURRED_IDS.add(dispatchId)
+            state.erroredCount += 1
             if (ENABLE_DEBUG) {
-              console.error(`[vuex-mutex][#${dispatchId}] ✖ ERROR* ${fullType} (reentrant)`, error)
+              log('error', 'error', ` ✖ ERROR* ${fullType} (${note})`, {error, note})
             }
+            emit({...eventFields, at: clock.now(), type: 'error', error, started: true})
             throw error
           } finally {
-            const endAt = Date.now()
+            const endAt = clock.now()
             const runMillis = endAt - startAt
             const totalMillis = endAt - queuedAt
 
-            decreaseRunning(deduplicationKey)
-            namespaceExit(mutexKey)
+            decreaseRunning(state, deduplicationKey)
+            leaveLatestGroup(state, latestGroup, latestEntry)
+            frame.settled = true
 
-            lastDoneAtByKey.set(deduplicationKey, endAt)
+            if (deduplicationKey !== null) {
+              lastDoneAtByKey.set(deduplicationKey, endAt)
+            }
             if (ENABLE_DEBUG) {
               const label = errorOccurred ? '✔ DONE* (error occurred)' : '✔ DONE*'
-              const color = errorOccurred ? '#FF9800' : '#4CAF50'
-              console.info(`%c[vuex-mutex][#${dispatchId}] ${label} ${fullType} (run: ${runMillis} ms, total: ${totalMillis} ms) (reentrant)`, `color: ${color};`)
-              onFinish(dispatchId)
+              log('debug', 'done', ` ${label} ${fullType} (run: ${runMillis} ms, total: ${totalMillis} ms) (${note})`, {status: errorOccurred ? 'error' : 'ok', runMillis, totalMillis, note})
             }
+            onFinish(state, dispatchId)
+            emit({...eventFields, at: endAt, type: 'finish', status: errorOccurred ? 'error' : 'ok', waitMillis, runMillis, totalMillis})
           }
         })()
 
-        inFlightByKey.set(deduplicationKey, process)
-        process.finally(() => {
-          if (inFlightByKey.get(deduplicationKey) === process) {
-            inFlightByKey.delete(deduplicationKey)
+        if (deduplicationKey !== null) {
+          inFlightByKey.set(deduplicationKey, process)
+          if (sharedDedupe) {
+            state.crossTab!.trackInFlight(deduplicationKey, process)
           }
-        }).catch(() => {}) /* see https://stackoverflow.com/questions/66613162/js-uncaught-error-when-promise-finally-is-used-in-function */
+          process.finally(() => {
+            if (inFlightByKey.get(deduplicationKey) === process) {
+              inFlightByKey.delete(deduplicationKey)
+            }
+          }).catch(() => {}) /* see https://stackoverflow.com/questions/66613162/js-uncaught-error-when-promise-finally-is-used-in-function */
+        }
+        if (latestGroup !== null && latestEntry) {
+          supersedeGroup(latestGroup, latestEntry, process, policy, eventFields)
+        }
+        cacheResultOf(deduplicationKey, process, policy)
 
-        return process
+        return staleResult ? replayResult(staleResult) : process
       }
       //#endregion
 
       //#region Normal mutex path (serialized execution)
+      const lockMode = [policy.access, policy.maxConcurrent !== undefined && `max ${policy.maxConcurrent}`, priority !== 0 && `priority ${priority}`].filter(Boolean).join(', ')
+      const tracked: DispatchSnapshot = {...snapshotFields(policy.access), startedAt: null, reentrant: false}
+      onQueued(state, tracked)
       if (ENABLE_DEBUG) {
-        onQueued(dispatchId)
-        console.info(`%c[vuex-mutex][#${dispatchId}]⏳ QUEUED ${fullType} (mutexKey: ${mutexKey})`, 'color: #FFC107;')
+        log('debug', 'queued', `⏳ QUEUED ${fullType} (mutexKey: ${mutexKey}, ${lockMode})`, {access: policy.access, priority})
       }
+      emit({...eventFields, at: queuedAt, type: 'queued', access: policy.access, priority})
 
-      increaseQueued(deduplicationKey)
+      increaseQueued(state, deduplicationKey)
+      state.waitingById.set(dispatchId, claim!)
+
+      const waitErrors = {
+        timeout: () => new QueueTimeoutError({dispatchId, fullType, mutexKey, maxWaitMillis: maxWaitMillis!}),
+        abort: (reason: unknown) => new DispatchAbortedError({dispatchId, fullType, mutexKey, reason}),
+      }
+      const waitSignal = createWaitSignal(clock, maxWaitMillis, callerSignal, waitErrors, latestGroup !== null)
+      const latestEntry: LatestEntry | null =
+        latestGroup === null ? null : {dispatchId, fullType, mutexKey, frame, started: false, supersededBy: null, cancel: (error) => waitSignal?.cancel(error)}
+      joinLatestGroup(state, latestGroup, latestEntry)
+
+      const process = (async () => {
+        //#region Waiting for the lock (may time out / be aborted)
+        let release: LockRelease
+        try {
+          release = await acquireLock(lockKey, {access: policy.access, maxConcurrent: policy.maxConcurrent, priority, signal: waitSignal?.signal})
+          // Superseded while the lock was being granted → give it back right away
+          if (latestEntry?.supersededBy) {
+            release()
+            throw latestEntry.supersededBy.error
+          }
+        } catch (error) {
+          // Removed from the queue before it started (timeout, abort or superseded)
+          decreaseQueued(state, deduplicationKey)
+          leaveLatestGroup(state, latestGroup, latestEntry)
+          frame.settled = true
+          const supersededResult = latestEntry?.supersededBy?.result
+          if (!supersededResult) {
+            state.erroredCount += 1
+          }
+          const endAt = clock.now()
+          if (ENABLE_DEBUG) {
+            const label = latestEntry?.supersededBy ? `⤼ SUPERSEDED (by #${latestEntry.supersededBy.error.supersededBy})` : '✖ CANCELLED'
+            log('warn', 'cancelled', ` ${label} ${fullType} (waited: ${endAt - queuedAt} ms, mutexKey: ${mutexKey})`, {error, waitMillis: endAt - queuedAt})
+          }
+          onFinish(state, dispatchId)
+          if (!supersededResult) {
+            emit({...eventFields, at: endAt, type: 'error', error, started: false})
+          }
+          emit({...eventFields, at: endAt, type: 'finish', status: 'cancelled', waitMillis: endAt - queuedAt, runMillis: null, totalMillis: endAt - queuedAt})
+          if (supersededResult) {
+            // Settles with the newest dispatch's result
+            return supersededResult
+          }
+          throw error
+        } finally {
+          waitSignal?.dispose()
+          state.waitingById.delete(dispatchId)
+        }
+        //#endregion
 
-      const process = mutex.runExclusive(async () => {
         //#region Inside critical section
-        const startAt = Date.now()
+        const startAt = clock.now()
         const waitMillis = startAt - queuedAt
 
-        decreaseQueued(deduplicationKey)
-        increaseRunning(deduplicationKey)
+        decreaseQueued(state, deduplicationKey)
+        increaseRunning(state, deduplicationKey)
+        addHolder(state, claim!)
+        tracked.startedAt = startAt
+        if (latestEntry) {
+          latestEntry.started = true
+        }
 
         if (ENABLE_DEBUG) {
-          console.info(`%c[vuex-mutex][#${dispatchId}] ▶ START ${fullType} (wait: ${waitMillis} ms, mutexKey: ${mutexKey})`, 'color: #03A9F4;')
+          log('debug', 'start', ` ▶ START ${fullType} (wait: ${waitMillis} ms, mutexKey: ${mutexKey}, ${lockMode})`, {waitMillis})
+        }
+        emit({...eventFields, at: startAt, type: 'start', waitMillis, locked: true})
+
+        // Watchdog: report (and optionally force-release) an action that holds the lock too long
+        let stuckTimer: unknown = null
+        const {maxRunMillis} = policy
+        const watch = (heldSince: number) =>
+          maxRunMillis === undefined
+            ? null
+            : new Promise<never>((_, reject) => {
+                stuckTimer = clock.setTimeout(() => {
+                  const event: StuckActionEvent = {dispatchId, fullType, mutexKey, startedAt: heldSince, runMillis: clock.now() - heldSince, released: policy.releaseWhenStuck}
+                  if (ENABLE_STUCK_LOGS) {
+                    const outcome = event.released ? 'lock force-released (caller rejected)' : 'still holding the lock'
+                    log('warn', 'stuck', ` ⚠ STUCK ${fullType} (run: ${event.runMillis} ms > ${maxRunMillis} ms, mutexKey: ${mutexKey}) → ${outcome}`, {runMillis: event.runMillis, released: event.released})
+                  }
+                  mutexPluginOptions.onStuck?.(event)
+                  emit({...eventFields, ...event, at: clock.now(), type: 'stuck'})
+                  if (event.released) {
+                    reject(new ActionStuckError({dispatchId, fullType, mutexKey, maxRunMillis}))
+                  }
+                }, maxRunMillis)
+              })
+        let stuck = watch(startAt)
+        const whileHolding = <T>(promise: Promise<T>) => (stuck ? Promise.race([promise, stuck]) : promise)
+
+        // Backoff between retries: keeps the lock, or ('release') lets the queue run and waits for the lock again
+        const pause = async (delayMillis: number) => {
+          if (policy.retry?.lock !== 'release') {
+            return whileHolding(sleep(delayMillis))
+          }
+          if (stuckTimer) {
+            clock.clearTimeout(stuckTimer)
+            stuckTimer = null
+          }
+          release()
+          removeHolder(state, claim!)
+          tracked.startedAt = null
+          await sleepUnlessAborted(delayMillis, callerSignal, waitErrors.abort)
+          // Queues again like a new dispatch: deadlock check, caller's signal and maxWaitMillis
+          const deadlock = detectDeadlock(claim!)
+          if (deadlock && deadlockMode === 'reject') {
+            throw new DeadlockError({dispatchId, fullType, mutexKey, cycle: deadlock})
+          }
+          if (deadlock && deadlockMode === 'reenter') {
+            release = () => {}
+            tracked.startedAt = clock.now()
+            return
+          }
+          state.waitingById.set(dispatchId, claim!)
+          const requeueSignal = createWaitSignal(clock, maxWaitMillis, callerSignal, waitErrors)
+          try {
+            release = await acquireLock(lockKey, {access: policy.access, maxConcurrent: policy.maxConcurrent, priority, signal: requeueSignal?.signal})
+          } finally {
+            requeueSignal?.dispose()
+            state.waitingById.delete(dispatchId)
+          }
+          addHolder(state, claim!)
+          tracked.startedAt = clock.now()
+          stuck = watch(tracked.startedAt)
         }
 
-        namespaceEnter(mutexKey)
         let errorOccurred = false
         try {
-          return await run()
+          return await runWithRetries(() => whileHolding(run()), policy.retry, frame, eventFields, log, pause)
         } catch (error) {
           errorOccurred = true
-          ERROR_OCCURRED_IDS.add(dispatchId)
+          state.erroredCount += 1
           if (ENABLE_DEBUG) {
-            console.error(`[vuex-mutex][#${dispatchId}] ✖ ERROR ${fullType}`, error)
+            log('error', 'error', ` ✖ ERROR ${fullType}`, {error})
           }
+          emit({...eventFields, at: clock.now(), type: 'error', error, started: true})
           throw error
         } finally {
-          decreaseRunning(deduplicationKey)
-          namespaceExit(mutexKey)
+          if (stuckTimer) {
+            clock.clearTimeout(stuckTimer)
+          }
+          release()
+          removeHolder(state, claim!)
+          decreaseRunning(state, deduplicationKey)
+          leaveLatestGroup(state, latestGroup, latestEntry)
+          frame.settled = true
 
-          const endAt = Date.now()
+          const endAt = clock.now()
           const runMillis = endAt - startAt
           const totalMillis = endAt - queuedAt
 
-          lastDoneAtByKey.set(deduplicationKey, endAt)
+          if (deduplicationKey !== null) {
+            lastDoneAtByKey.set(deduplicationKey, endAt)
+          }
 
           if (ENABLE_DEBUG) {
             const label = errorOccurred ? '✔ DONE (error occurred)' : '✔ DONE'
-            const color = errorOccurred ? '#FF9800' : '#4CAF50'
-            console.info(`%c[vuex-mutex][#${dispatchId}] ${label} ${fullType} (run: ${runMillis} ms, total: ${totalMillis} ms)`, `color: ${color};`)
-            onFinish(dispatchId)
+            log('debug', 'done', ` ${label} ${fullType} (run: ${runMillis} ms, total: ${totalMillis} ms)`, {status: errorOccurred ? 'error' : 'ok', runMillis, totalMillis})
           }
+          onFinish(state, dispatchId)
+          emit({...eventFields, at: endAt, type: 'finish', status: errorOccurred ? 'error' : 'ok', waitMillis, runMillis, totalMillis})
         }
         //#endregion
-      })
+      })()
 
-      inFlightByKey.set(deduplicationKey, process)
-      process.finally(() => {
-        if (inFlightByKey.get(deduplicationKey) === process) {
-          inFlightByKey.delete(deduplicationKey)
+      if (deduplicationKey !== null) {
+        inFlightByKey.set(deduplicationKey, process)
+        if (sharedDedupe) {
+          state.crossTab!.trackInFlight(deduplicationKey, process)
         }
-      }).catch(() => {})/* see https://stackoverflow.com/questions/66613162/js-uncaught-error-when-promise-finally-is-used-in-function */
+        process.finally(() => {
+          if (inFlightByKey.get(deduplicationKey) === process) {
+            inFlightByKey.delete(deduplicationKey)
+          }
+        }).catch(() => {})/* see https://stackoverflow.com/questions/66613162/js-uncaught-error-when-promise-finally-is-used-in-function */
+      }
+      if (latestGroup !== null && latestEntry) {
+        supersedeGroup(latestGroup, latestEntry, process, policy, eventFields)
+      }
+      cacheResultOf(deduplicationKey, process, policy)
 
-      return process
+      return staleResult ? replayResult(staleResult) : process
       //#endregion
     }) as any
     ;(store.dispatch as any)[WRAPPED] = true
+    bindModuleContexts(store, state, vuexDispatch)
     //#endregion
   }
+
+  return Object.assign(plugin, {
+    subscribe: (listener: MutexEventListener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+  })
+}
+
+/**
+ * AbortSignal of the action that is starting right now in `store`, created on first call.
+ * Call it synchronously at the top of the action (before the first `await`); with the 'latest'
+ * mode and `abortSuperseded`, it aborts once a newer dispatch supersedes the running action.
+ *
+ * @example
+ * async search({commit}, query) {
+ *   const signal = getActionSignal(store)
+ *   commit('setResults', await api.search(query, {signal}))
+ * }
+ */
+export function getActionSignal(store: Store<any>): AbortSignal | undefined {
+  const frame = STATE_BY_STORE.get(store)?.startingFrame
+  if (!frame) {
+    return undefined
+  }
+  frame.abortController ??= new AbortController()
+  return frame.abortController.signal
+}
+
+/**
+ * Inspection API of the plugin installed into `store` (undefined if it is not installed).
+ * Counters and live state are tracked regardless of `debug`.
+ *
+ * @example
+ * const mutex = getVuexMutex(store)
+ * mutex?.snapshot().locks // → [{mutexKey: 'deal', running: [...], queued: [...]}]
+ * mutex?.health() // → {totalStarted: 12, totalDone: 11, …, pendingIds: ['11']}
+ */
+export function getVuexMutex(store: Store<any>): VuexMutexInspector | undefined {
+  const state = STATE_BY_STORE.get(store)
+  if (!state) {
+    return undefined
+  }
+  return {
+    health: () => computeDispatchHealth(state),
+    snapshot: () => snapshotDispatches(state),
+    metrics: () => state.metrics?.snapshot(),
+    prometheusMetrics: () => state.metrics?.toPrometheus(),
+    resetStats: () => resetDispatchStats(state),
+    trace: () => state.trace?.entries(),
+    chromeTrace: () => state.trace?.toChromeTrace(),
+    clearTrace: () => state.trace?.clear(),
+    closeCrossTab: () => {
+      state.crossTab?.close()
+      state.crossTab = null
+    },
+  }
+}
+
+/**
+ * Resolves once no dispatch of `store` is queued, running or scheduled (debounce/throttle) —
+ * or, with `namespace`, none of that namespace and its nested namespaces. Resolves right away
+ * if the store is idle or the plugin is not installed. With `timeoutMillis`, it rejects with an
+ * `IdleTimeoutError` listing the dispatches that were still pending.
+ *
+ * @example
+ * // SSR: let the prefetching actions settle before serializing the state
+ * await whenIdle(store, {timeoutMillis: 2000})
+ * const html = renderState(store.state)
+ */
+export function whenIdle(store: Store<any>, options: {namespace?: string; timeoutMillis?: number} = {}): Promise<void> {
+  const state = STATE_BY_STORE.get(store)
+  // "deal" and "deal/" both mean the "deal/" namespace
+  const namespace = options.namespace ? options.namespace.replace(/\/?$/, '/') : null
+  if (!state || isIdle(state, namespace)) {
+    return Promise.resolve()
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    let timer: unknown = null
+    const waiter: IdleWaiter = {
+      namespace,
+      resolve: () => {
+        if (timer) {
+          state.clock.clearTimeout(timer)
+        }
+        resolve()
+      },
+    }
+    state.idleWaiters.add(waiter)
+    if (options.timeoutMillis !== undefined) {
+      const {timeoutMillis} = options
+      timer = state.clock.setTimeout(() => {
+        state.idleWaiters.delete(waiter)
+        const pending = pendingDispatches(state, namespace).map(({dispatchId, fullType, mutexKey, queuedAt, startedAt}) => ({dispatchId, fullType, mutexKey, queuedAt, startedAt}))
+        reject(new IdleTimeoutError({namespace, timeoutMillis, pending, at: state.clock.now()}))
+      }, timeoutMillis)
+    }
+  })
 }
@@ -0,0 +1,170 @@
+/**
+ * Dispatch Lock
+ * -------------
+ * The lock behind every lock key: writers run exclusively, readers share the lock
+ * with other readers. Waiters are served by priority, then arrival order; a waiting
+ * writer blocks the readers queued behind it, so a steady stream of readers cannot
+ * starve writers. A running holder is never preempted.
+ *
+ * Aging: every `agingMillis` of waiting raise a waiter's effective priority by 1, so
+ * low-priority work is not starved by a steady stream of higher-priority work.
+ * Because all waiters age at the same rate, the effective order only depends on
+ * `priority - enqueuedAt / agingMillis`, which is fixed when a waiter is enqueued.
+ *
+ * A waiter can be cancelled through an `AbortSignal`: it leaves the queue at once
+ * and its `acquire()` rejects with `signal.reason`.
+ *
+ * Each acquisition may raise its own concurrency limit (semaphore semantics):
+ * a writer with `maxConcurrent: 3` starts while fewer than 3 writers hold the lock,
+ * a reader with `maxConcurrent: 2` while fewer than 2 readers do. Readers and
+ * writers never hold the lock at the same time.
+ *
+ * @internal
+ */
+
+/** How a dispatch holds its lock: 'read' = shared with other readers, 'write' = exclusive. */
+export type LockAccess = 'read' | 'write'
+
+/** Releases a held lock; calling it more than once has no effect. */
+export type LockRelease = () => void
+
+export type LockRequest = {
+  /** Default: 'write'. */
+  access?: LockAccess
+  /** Default: 1 for writers (mutex), unlimited for readers. */
+  maxConcurrent?: number
+  /** Higher is served first. Default: 0. */
+  priority?: number
+  /** Aborting removes the waiter from the queue (no effect once the lock is held). */
+  signal?: AbortSignal
+}
+
+type Waiter = {
+  access: LockAccess
+  maxConcurrent: number
+  /** Effective priority with aging folded in (higher first). */
+  rank: number
+  grant: (release: LockRelease) => void
+}
+
+export class DispatchLock {
+  private activeReaders = 0
+  private activeWriters = 0
+  private readonly waiters: Waiter[] = []
+  private readonly createdAt: number
+
+  /**
+   * @param agingMillis Waiting time that raises the effective priority by 1 (Infinity → no aging).
+   * @param clock Time source of the aging (default: `Date.now()`).
+   */
+  constructor(
+    private readonly agingMillis = Infinity,
+    private readonly clock: {now: () => number} = {now: () => Date.now()}
+  ) {
+    this.createdAt = clock.now()
+  }
+
+  /** Resolves with a release function once the lock is held as requested. */
+  acquire({access = 'write', maxConcurrent = defaultMaxConcurrent(access), priority = 0, signal}: LockRequest = {}): Promise<LockRelease> {
+    const waitedBefore = Number.isFinite(this.agingMillis) ? (this.clock.now() - this.createdAt) / this.agingMillis : 0
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+
+      const onAbort = () => {
+        const index = this.waiters.indexOf(waiter)
+        if (index !== -1) {
+          this.waiters.splice(index, 1)
+          // The removed waiter may have blocked the head of the queue
+          this.dispatchWaiters()
+          reject(signal!.reason)
+        }
+      }
+      const waiter: Waiter = {
+        access,
+        maxConcurrent,
+        rank: priority - waitedBefore,
+        grant: (release) => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve(release)
+        },
+      }
+
+      signal?.addEventListener('abort', onAbort, {once: true})
+      this.enqueue(waiter)
+      this.dispatchWaiters()
+    })
+  }
+
+  /** Runs `worker` while holding the lock; releases it when the worker settles. */
+  async runExclusive<T>(worker: () => Promise<T>, request?: LockRequest): Promise<T> {
+    const release = await this.acquire(request)
+    try {
+      return await worker()
+    } finally {
+      release()
+    }
+  }
+
+  /** True while any reader or writer holds the lock. */
+  isLocked(): boolean {
+    return this.activeReaders > 0 || this.activeWriters > 0
+  }
+
+  /** True while nobody holds or waits for the lock (it can be discarded). */
+  isIdle(): boolean {
+    return !this.isLocked() && this.waiters.length === 0
+  }
+
+  /** Inserts behind all waiters with the same or a higher rank (FIFO among equals). */
+  private enqueue(waiter: Waiter) {
+    let index = this.waiters.length
+    while (index > 0 && this.waiters[index - 1]!.rank < waiter.rank) {
+      index -= 1
+    }
+    this.waiters.splice(index, 0, waiter)
+  }
+
+  private canGrant({access, maxConcurrent}: Waiter): boolean {
+    if (access === 'read') {
+      return this.activeWriters === 0 && this.activeReaders < maxConcurrent
+    }
+    return this.activeReaders === 0 && this.activeWriters < maxConcurrent
+  }
+
+  /** Grants the head of the queue as long as possible (consecutive readers are granted together). */
+  private dispatchWaiters() {
+    while (this.waiters.length > 0 && this.canGrant(this.waiters[0]!)) {
+      const waiter = this.waiters.shift()!
+      if (waiter.access === 'read') {
+        this.activeReaders += 1
+      } else {
+        this.activeWriters += 1
+      }
+      waiter.grant(this.createRelease(waiter.access))
+    }
+  }
+
+  private createRelease(access: LockAccess): LockRelease {
+    let released = false
+    return () => {
+      if (released) {
+        return
+      }
+      released = true
+      if (access === 'read') {
+        this.activeReaders -= 1
+      } else {
+        this.activeWriters -= 1
+      }
+      this.dispatchWaiters()
+    }
+  }
+}
+
+/** Limit of an acquisition without `maxConcurrent`: 1 writer (mutex), any number of readers. */
+export function defaultMaxConcurrent(access: LockAccess): number {
+  return access === 'read' ? Infinity : 1
+}
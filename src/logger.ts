@@ -0,0 +1,102 @@
+/* eslint-disable no-console */
+
+/**
+ * Vuex Mutex Loggers
+ * ------------------
+ * Everything the plugin logs goes through a `VuexMutexLogger`: a message for humans
+ * plus structured fields for machines. The message carries everything after the
+ * "[vuex-mutex]" tag (e.g. "[#03] ▶ START deal/save (wait: 12 ms, …)"); loggers add the tag.
+ *
+ * - `createConsoleLogger()`: browser DevTools, colored trace lines (default).
+ * - `createPlainLogger()`: plain text or JSON lines for Node/SSR logs and test output.
+ */
+
+/** Severity of a log line; `logLevel` drops everything below the configured minimum. */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * Structured data of a log line. `event` names what happened: 'queued', 'start', 'reenter',
+ * 'done', 'error', 'retry', 'cancelled', 'stale', 'stuck', 'deadlock', 'dedupe', 'batch',
+ * 'health', 'listener' or 'devtools'.
+ */
+export type LogFields = {
+  event: string
+  dispatchId?: string
+  fullType?: string
+  mutexKey?: string
+  /** The error a line reports (action failure, cancellation reason, failing listener). */
+  error?: unknown
+  [field: string]: unknown
+}
+
+export type VuexMutexLogger = Record<LogLevel, (message: string, fields: LogFields) => void>
+
+const LEVEL_ORDER: Record<LogLevel, number> = {debug: 0, info: 1, warn: 2, error: 3}
+
+/** Trace colors of the console logger (by `fields.event`). */
+const COLOR_BY_EVENT: Record<string, string> = {
+  queued: '#FFC107',
+  start: '#03A9F4',
+  reenter: '#9C27B0',
+  done: '#4CAF50',
+  stale: '#607D8B',
+}
+
+/**
+ * Logs to the browser console with the colored trace lines of the dispatch lifecycle.
+ * Debug lines go to `console.info`, so they show up with the default DevTools filter.
+ */
+export function createConsoleLogger(): VuexMutexLogger {
+  const write = (method: 'info' | 'warn' | 'error') => (message: string, fields: LogFields) => {
+    const extra = fields.error === undefined ? [] : [fields.error]
+    // A finished dispatch whose action failed is highlighted
+    const color = fields.event === 'done' && fields.status === 'error' ? '#FF9800' : COLOR_BY_EVENT[fields.event]
+    if (color) {
+      console[method](`%c[vuex-mutex]${message}`, `color: ${color};`, ...extra)
+    } else {
+      console[method](`[vuex-mutex]${message}`, ...extra)
+    }
+  }
+  return {debug: write('info'), info: write('info'), warn: write('warn'), error: write('error')}
+}
+
+/**
+ * Logs plain lines without console styling, for Node/SSR and test runners.
+ *
+ * - format 'text': `[vuex-mutex] WARN [#03] ⚠ STUCK deal/save (…)` (default)
+ * - format 'json': one JSON object per line with `level`, `message` and all fields
+ *
+ * `write` receives each line; default: `console.log` (`console.error` for warn/error).
+ */
+export function createPlainLogger(options: {format?: 'text' | 'json'; write?: (line: string, level: LogLevel) => void} = {}): VuexMutexLogger {
+  const {format = 'text', write = (line: string, level: LogLevel) => (LEVEL_ORDER[level] >= LEVEL_ORDER.warn ? console.error(line) : console.log(line))} = options
+  const log = (level: LogLevel) => (message: string, fields: LogFields) => {
+    if (format === 'json') {
+      write(JSON.stringify({level, message: `[vuex-mutex]${message}`, ...fields, error: describeError(fields.error)}), level)
+      return
+    }
+    const errorText = fields.error === undefined ? '' : ` — ${String(describeError(fields.error))}`
+    write(`[vuex-mutex] ${level.toUpperCase()} ${message.trim()}${errorText}`, level)
+  }
+  return {debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error')}
+}
+
+/** Errors do not survive `JSON.stringify`; keep their name and message. */
+function describeError(error: unknown): unknown {
+  if (error instanceof Error) {
+    return `${error.name}: ${error.message}`
+  }
+  return error
+}
+
+/** Writes one log line if `level` reaches the minimum level. @internal */
+export type LogWrite = (level: LogLevel, message: string, fields: LogFields) => void
+
+/** @internal */
+export function createLogWrite(logger: VuexMutexLogger, minLevel: LogLevel): LogWrite {
+  return (level, message, fields) => {
+    if (LEVEL_ORDER[level] >= LEVEL_ORDER[minLevel]) {
+      logger[level](message, fields)
+    }
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Dispatch Metrics
+ * ----------------
+ * Aggregates the lifecycle events of a store per full action type and per lock key:
+ * finished dispatches by status, dedupe decisions by phase/mode, and wait/run time
+ * histograms. Recording is O(buckets) per event with fixed memory per action and lock
+ * key, so it can stay on in production; percentiles are estimated from the buckets
+ * only when metrics are read. Lock keys derived from payloads (one per entity) are
+ * unbounded: past `maxLockKeys` series, further lock keys are counted under `(other)`.
+ *
+ * @internal
+ */
+
+import type {MutexEvent} from './index'
+
+/** Default upper bounds of the histogram buckets (ms); a last bucket catches everything above. */
+export const DEFAULT_BUCKETS_MILLIS = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000]
+
+/** Default number of lock keys with their own series. */
+export const DEFAULT_MAX_LOCK_KEYS = 100
+
+/** Series of the lock keys beyond `maxLockKeys`. */
+export const OTHER_LOCK_KEYS = '(other)'
+
+/** Histogram of wait or run times (ms). */
+export type HistogramSnapshot = {
+  count: number
+  sumMillis: number
+  maxMillis: number
+  /** Cumulative counts per upper bound (`le: Infinity` → all observations). */
+  buckets: {le: number; count: number}[]
+  /** Estimated from the buckets (linear interpolation); null without observations. */
+  p50: number | null
+  p90: number | null
+  p99: number | null
+}
+
+/** Metrics of one action type or lock key. */
+export type DispatchMetrics = {
+  /** Finished dispatches (ok + error + cancelled). */
+  dispatches: number
+  errors: number
+  /** Left the queue before they started (timeout, abort, superseded). */
+  cancelled: number
+  /** Dedupe decisions by "PHASE/mode" (e.g. "IN-FLIGHT/share"). */
+  dedupes: Record<string, number>
+  /** Time from dispatch until the lock was held (started dispatches only). */
+  waitMillis: HistogramSnapshot
+  /** Time from start until the action settled (started dispatches only). */
+  runMillis: HistogramSnapshot
+}
+
+/** Metrics of a store (see `getVuexMutex(store).metrics()`). */
+export type MutexMetrics = {
+  /** `Date.now()` when recording started (or was last reset). */
+  since: number
+  /** By full action type. */
+  actions: Record<string, DispatchMetrics>
+  /**
+   * By lock key (dispatches without a lock key are only counted per action). Lock keys
+   * beyond `maxLockKeys` are grouped under `(other)`.
+   */
+  lockKeys: Record<string, DispatchMetrics>
+}
+
+type Histogram = {counts: number[]; count: number; sum: number; max: number}
+
+type Series = {
+  dispatches: number
+  errors: number
+  cancelled: number
+  dedupes: Map<string, number>
+  wait: Histogram
+  run: Histogram
+}
+
+export type MetricsRecorder = {
+  record: (event: MutexEvent) => void
+  snapshot: () => MutexMetrics
+  /** Prometheus text exposition format (times in seconds, as Prometheus recommends). */
+  toPrometheus: () => string
+  reset: () => void
+}
+
+/**
+ * @param maxLockKeys Lock keys with their own series; later ones share `(other)` (0 → no per-lock-key metrics).
+ */
+export function createMetricsRecorder(
+  bucketsMillis: number[] = DEFAULT_BUCKETS_MILLIS,
+  clock: {now: () => number} = {now: () => Date.now()},
+  maxLockKeys = DEFAULT_MAX_LOCK_KEYS
+): MetricsRecorder {
+  const bounds = [...bucketsMillis].sort((a, b) => a - b)
+  let since = clock.now()
+  let byAction = new Map<string, Series>()
+  let byLockKey = new Map<string, Series>()
+
+  const seriesOf = (map: Map<string, Series>, key: string) => {
+    let series = map.get(key)
+    if (!series) {
+      series = {dispatches: 0, errors: 0, cancelled: 0, dedupes: new Map(), wait: createHistogram(bounds), run: createHistogram(bounds)}
+      map.set(key, series)
+    }
+    return series
+  }
+
+  /** Series of a lock key; null when per-lock-key metrics are off. */
+  const lockKeySeriesOf = (mutexKey: string) => {
+    if (maxLockKeys <= 0) {
+      return null
+    }
+    const ownSeries = byLockKey.size - (byLockKey.has(OTHER_LOCK_KEYS) ? 1 : 0)
+    return seriesOf(byLockKey, byLockKey.has(mutexKey) || ownSeries < maxLockKeys ? mutexKey : OTHER_LOCK_KEYS)
+  }
+
+  return {
+    record(event) {
+      if (event.type !== 'finish' && event.type !== 'dedupe') {
+        return
+      }
+      const targets = [seriesOf(byAction, event.fullType)]
+      const lockKeySeries = event.mutexKey === null ? null : lockKeySeriesOf(event.mutexKey)
+      if (lockKeySeries) {
+        targets.push(lockKeySeries)
+      }
+      for (const series of targets) {
+        if (event.type === 'dedupe') {
+          const key = `${event.phase}/${event.mode}`
+          series.dedupes.set(key, (series.dedupes.get(key) ?? 0) + 1)
+          continue
+        }
+        series.dispatches += 1
+        if (event.status === 'error') {
+          series.errors += 1
+        } else if (event.status === 'cancelled') {
+          series.cancelled += 1
+        }
+        if (event.runMillis !== null) {
+          observe(series.wait, bounds, event.waitMillis)
+          observe(series.run, bounds, event.runMillis)
+        }
+      }
+    },
+    snapshot() {
+      const toJSON = (map: Map<string, Series>) => Object.fromEntries([...map].map(([key, series]) => [key, snapshotSeries(series, bounds)]))
+      return {since, actions: toJSON(byAction), lockKeys: toJSON(byLockKey)}
+    },
+    toPrometheus() {
+      return [...formatFamilies('action', 'action', byAction, bounds), ...formatFamilies('lock', 'lock_key', byLockKey, bounds)].join('\n') + '\n'
+    },
+    reset() {
+      since = clock.now()
+      byAction = new Map()
+      byLockKey = new Map()
+    },
+  }
+}
+
+//#region Histograms
+
+function createHistogram(bounds: number[]): Histogram {
+  return {counts: new Array(bounds.length + 1).fill(0), count: 0, sum: 0, max: 0}
+}
+
+function observe(histogram: Histogram, bounds: number[], millis: number) {
+  let index = 0
+  while (index < bounds.length && millis > bounds[index]!) {
+    index += 1
+  }
+  histogram.counts[index]! += 1
+  histogram.count += 1
+  histogram.sum += millis
+  histogram.max = Math.max(histogram.max, millis)
+}
+
+function snapshotHistogram(histogram: Histogram, bounds: number[]): HistogramSnapshot {
+  let cumulative = 0
+  const buckets = histogram.counts.map((count, index) => {
+    cumulative += count
+    return {le: bounds[index] ?? Infinity, count: cumulative}
+  })
+  return {
+    count: histogram.count,
+    sumMillis: histogram.sum,
+    maxMillis: histogram.max,
+    buckets,
+    p50: percentile(histogram, bounds, 0.5),
+    p90: percentile(histogram, bounds, 0.9),
+    p99: percentile(histogram, bounds, 0.99),
+  }
+}
+
+/** Interpolates within the bucket holding the quantile; never above the largest observation. */
+function percentile(histogram: Histogram, bounds: number[], quantile: number): number | null {
+  if (histogram.count === 0) {
+    return null
+  }
+  const rank = quantile * histogram.count
+  let below = 0
+  for (let index = 0; index < histogram.counts.length; index++) {
+    const count = histogram.counts[index]!
+    if (count > 0 && below + count >= rank) {
+      const lower = index === 0 ? 0 : bounds[index - 1]!
+      const upper = Math.min(bounds[index] ?? histogram.max, histogram.max)
+      return Math.max(lower, Math.min(upper, lower + ((rank - below) / count) * (upper - lower)))
+    }
+    below += count
+  }
+  return histogram.max
+}
+
+function snapshotSeries(series: Series, bounds: number[]): DispatchMetrics {
+  return {
+    dispatches: series.dispatches,
+    errors: series.errors,
+    cancelled: series.cancelled,
+    dedupes: Object.fromEntries(series.dedupes),
+    waitMillis: snapshotHistogram(series.wait, bounds),
+    runMillis: snapshotHistogram(series.run, bounds),
+  }
+}
+
+//#endregion
+
+//#region Prometheus text format
+
+/** Counter and histogram families of one dimension (`vuex_mutex_action_*` or `vuex_mutex_lock_*`). */
+function formatFamilies(scope: string, label: string, map: Map<string, Series>, bounds: number[]): string[] {
+  const name = `vuex_mutex_${scope}`
+  const entries = [...map].map(([key, series]) => [`${label}="${escapeLabel(key)}"`, series] as const)
+  const lines = [
+    `# HELP ${name}_dispatches_total Finished dispatches by status.`,
+    `# TYPE ${name}_dispatches_total counter`,
+    ...entries.flatMap(([labels, series]) =>
+      [
+        ['ok', series.dispatches - series.errors - series.cancelled],
+        ['error', series.errors],
+        ['cancelled', series.cancelled],
+      ].map(([status, count]) => `${name}_dispatches_total{${labels},status="${status}"} ${count}`)
+    ),
+    `# HELP ${name}_dedupes_total Dedupe decisions by phase and mode.`,
+    `# TYPE ${name}_dedupes_total counter`,
+    ...entries.flatMap(([labels, series]) =>
+      [...series.dedupes].map(([key, count]) => {
+        const [phase, mode] = key.split('/')
+        return `${name}_dedupes_total{${labels},phase="${phase}",mode="${mode}"} ${count}`
+      })
+    ),
+  ]
+  for (const [metric, help, pick] of [
+    ['wait_seconds', 'Time from dispatch until the lock was held.', (series: Series) => series.wait],
+    ['run_seconds', 'Time from start until the action settled.', (series: Series) => series.run],
+  ] as const) {
+    lines.push(`# HELP ${name}_${metric} ${help}`, `# TYPE ${name}_${metric} histogram`)
+    for (const [labels, series] of entries) {
+      const histogram = pick(series)
+      let cumulative = 0
+      histogram.counts.forEach((count, index) => {
+        cumulative += count
+        const le = index < bounds.length ? String(bounds[index]! / 1000) : '+Inf'
+        lines.push(`${name}_${metric}_bucket{${labels},le="${le}"} ${cumulative}`)
+      })
+      lines.push(`${name}_${metric}_sum{${labels}} ${histogram.sum / 1000}`, `${name}_${metric}_count{${labels}} ${histogram.count}`)
+    }
+  }
+  return lines
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+//#endregion
@@ -0,0 +1,227 @@
+/**
+ * Vuex Mutex Testing Helpers
+ * --------------------------
+ * Entry point `@iits-consulting/vuex-mutex/testing` for app test suites that run the
+ * plugin on purpose (`enabled: true`): a manual clock for thresholds, debounce and
+ * timeouts, an assertion on the recorded trace, a recorder of dedupe decisions, and an
+ * in-memory stand-in for the cross-tab transport.
+ *
+ * @example
+ * const clock = createTestClock()
+ * const plugin = createVuexMutexPlugin({enabled: true, clock, trace: true})
+ * const store = createStore({modules, plugins: [plugin]})
+ * const decisions = recordDedupeDecisions(plugin)
+ * // … dispatch, then `await clock.advance(500)` …
+ * expectSerialized(store, [/^deal\//])
+ * expect(decisions.decisions).toMatchSnapshot()
+ */
+
+import type {Store} from 'vuex'
+import type {CrossTabMessage, CrossTabTransport, WebLockManager} from './distributed'
+import {getVuexMutex, type MutexClock, type MutexEventOf, type VuexMutexPlugin} from './index'
+import {DispatchLock} from './lock'
+import type {TraceEntry} from './trace'
+
+/**
+ * Promise ticks without a timer being set or cleared after which `advance` considers the
+ * continuations of the plugin and the actions settled.
+ */
+const MICROTASK_TICKS = 100
+
+/** A manual `MutexClock`: time only moves with `advance`. */
+export type TestClock = MutexClock & {
+  /**
+   * Moves the time forward by `millis`: runs the due timers in order (each at its own time)
+   * and lets the promises they resolve settle before the next one.
+   *
+   * "Settled" means 100 promise ticks passed without a timer being set or cleared. An action
+   * that awaits a longer chain of promises before its next timer (or real I/O) is not waited
+   * for: its timer is then set after `advance` returned and only runs with the next `advance`.
+   * Await such work directly (or its dispatch) before advancing further.
+   */
+  advance: (millis: number) => Promise<void>
+  /** Resolves after `millis` of clock time (for actions in tests). */
+  sleep: (millis: number) => Promise<void>
+  /** Number of scheduled timers. */
+  pending: () => number
+}
+
+type TestTimer = {at: number; callback: () => void}
+
+/**
+ * Creates a manual clock starting at `startAt`. Independent of `vi.useFakeTimers()`;
+ * pass it as `clock` to `createVuexMutexPlugin`.
+ */
+export function createTestClock(startAt = 0): TestClock {
+  let now = startAt
+  let nextHandle = 1
+  const timers = new Map<number, TestTimer>()
+  /** Bumped whenever a timer is set or cleared. */
+  let changes = 0
+
+  /** Waits rounds of promise ticks until one passes without timer changes. */
+  const settle = async () => {
+    for (let seen = -1; seen !== changes; ) {
+      seen = changes
+      for (let tick = 0; tick < MICROTASK_TICKS; tick++) {
+        await Promise.resolve()
+      }
+    }
+  }
+
+  const clock: TestClock = {
+    now: () => now,
+    setTimeout(callback, millis) {
+      const handle = nextHandle++
+      timers.set(handle, {at: now + Math.max(0, millis), callback})
+      changes += 1
+      return handle
+    },
+    clearTimeout(handle) {
+      if (timers.delete(handle as number)) {
+        changes += 1
+      }
+    },
+    async advance(millis) {
+      const until = now + millis
+      await settle()
+      for (;;) {
+        // Earliest due timer; on ties the one scheduled first (Map keeps insertion order)
+        let due: [number, TestTimer] | undefined
+        for (const entry of timers) {
+          if (entry[1].at <= until && (!due || entry[1].at < due[1].at)) {
+            due = entry
+          }
+        }
+        if (!due) {
+          break
+        }
+        timers.delete(due[0])
+        now = due[1].at
+        due[1].callback()
+        await settle()
+      }
+      now = until
+      await settle()
+    },
+    sleep: (millis) => new Promise<void>((resolve) => clock.setTimeout(resolve, millis)),
+    pending: () => timers.size,
+  }
+  return clock
+}
+
+/**
+ * Asserts that no two recorded runs of the matching action types overlapped in time
+ * (a dispatch nested in another one — reentrant — does not count). Throws an `Error`
+ * listing the overlapping runs; a run still pending counts as running until now.
+ * Needs the plugin with `trace` enabled.
+ *
+ * @param types Full action types ("deal/save") or patterns (/^deal\//).
+ */
+export function expectSerialized(store: Store<any>, types: (string | RegExp)[]): void {
+  const mutex = getVuexMutex(store)
+  if (!mutex) {
+    throw new Error('expectSerialized: vuex-mutex is not installed into this store (or not enabled)')
+  }
+  const entries = mutex.trace()
+  if (!entries) {
+    throw new Error('expectSerialized: enable `trace` in the plugin options')
+  }
+
+  const matches = (fullType: string) => types.some((type) => (typeof type === 'string' ? type === fullType : type.test(fullType)))
+  const byId = new Map(entries.map((entry) => [entry.dispatchId, entry]))
+  const isAncestor = (ancestor: TraceEntry, entry: TraceEntry) => {
+    for (let parentId = entry.parentId; parentId !== null; parentId = byId.get(parentId)?.parentId ?? null) {
+      if (parentId === ancestor.dispatchId) {
+        return true
+      }
+    }
+    return false
+  }
+
+  const runs = entries.filter((entry) => entry.startedAt !== null && matches(entry.fullType))
+  const describe = (entry: TraceEntry) => `#${entry.dispatchId} ${entry.fullType} (${entry.startedAt}–${entry.endedAt ?? 'pending'})`
+  const overlaps: string[] = []
+  runs.forEach((first, index) => {
+    for (const second of runs.slice(index + 1)) {
+      const overlapping = first.startedAt! < (second.endedAt ?? Infinity) && second.startedAt! < (first.endedAt ?? Infinity)
+      if (overlapping && !isAncestor(first, second) && !isAncestor(second, first)) {
+        overlaps.push(`${describe(first)} overlaps ${describe(second)}`)
+      }
+    }
+  })
+  if (overlaps.length > 0) {
+    throw new Error(`expectSerialized: expected [${types.map(String).join(', ')}] to run one at a time, but:\n  ${overlaps.join('\n  ')}`)
+  }
+}
+
+/** A dedupe decision without timestamps, stable across runs (for snapshot tests). */
+export type DedupeDecision = Pick<MutexEventOf<'dedupe'>, 'dispatchId' | 'fullType' | 'dedupeKey' | 'phase' | 'mode' | 'deltaMillis'>
+
+/** Records the dedupe decisions of every store `plugin` is installed into until `stop()` is called. */
+export function recordDedupeDecisions(plugin: VuexMutexPlugin): {decisions: DedupeDecision[]; stop: () => void} {
+  const decisions: DedupeDecision[] = []
+  const stop = plugin.subscribe((event) => {
+    if (event.type === 'dedupe') {
+      const {dispatchId, fullType, dedupeKey, phase, mode, deltaMillis} = event
+      decisions.push({dispatchId, fullType, dedupeKey, phase, mode, deltaMillis})
+    }
+  })
+  return {decisions, stop}
+}
+
+/** One tab of a `createMemoryTransportHub`; `close()` cuts it off, like a closed or frozen tab. */
+export type MemoryTransport = CrossTabTransport & {close: () => void}
+
+/**
+ * In-memory stand-in for BroadcastChannel (and, with `webLocks`, the Web Locks API) shared by
+ * the "tabs" of a test: each `connect()` returns the transport of one tab, to be passed as
+ * `crossTab.transport` of its store's plugin. Messages reach the other tabs in a microtask;
+ * `messages` lists everything sent.
+ */
+export function createMemoryTransportHub(options: {webLocks?: boolean} = {}): {connect: () => MemoryTransport; messages: CrossTabMessage[]} {
+  const messages: CrossTabMessage[] = []
+  const tabs = new Set<Set<(message: CrossTabMessage) => void>>()
+  const lockByName = new Map<string, DispatchLock>()
+
+  const locks: WebLockManager = {
+    async request(name, {signal}, callback) {
+      let lock = lockByName.get(name)
+      if (!lock) {
+        lock = new DispatchLock()
+        lockByName.set(name, lock)
+      }
+      const release = await lock.acquire({signal})
+      try {
+        return await callback(null)
+      } finally {
+        release()
+      }
+    },
+  }
+
+  const connect = (): MemoryTransport => {
+    const listeners = new Set<(message: CrossTabMessage) => void>()
+    tabs.add(listeners)
+    return {
+      postMessage(message) {
+        if (!tabs.has(listeners)) {
+          return
+        }
+        messages.push(message)
+        for (const other of tabs) {
+          if (other !== listeners) {
+            queueMicrotask(() => other.forEach((listener) => listener({...message})))
+          }
+        }
+      },
+      subscribe(listener) {
+        listeners.add(listener)
+        return () => listeners.delete(listener)
+      },
+      locks: options.webLocks ? locks : undefined,
+      close: () => tabs.delete(listeners),
+    }
+  }
+  return {connect, messages}
+}
@@ -0,0 +1,184 @@
+/**
+ * Dispatch Trace
+ * --------------
+ * Records one entry per dispatch (parent, lock key, queued/start/end timestamps,
+ * outcome, dedupe decision) from the lifecycle events of a store into a bounded
+ * ring buffer: once it is full, the oldest dispatch is dropped.
+ *
+ * `toChromeTrace()` exports the entries in the Chrome Trace Event format for
+ * about:tracing or https://ui.perfetto.dev: one track per lock key, runs as slices,
+ * waiting times as async slices and dedupe decisions as instant events.
+ *
+ * @internal
+ */
+
+import type {MutexEvent} from './index'
+
+/** Default number of dispatches kept. */
+export const DEFAULT_TRACE_CAPACITY = 1000
+
+/** Track of the dispatches without a lock key. */
+const UNLOCKED_TRACK = '(unlocked)'
+
+/** One recorded dispatch (see `getVuexMutex(store).trace()`). */
+export type TraceEntry = {
+  dispatchId: string
+  /** Dispatch id of the action that dispatched this one (reentrant or nested calls). */
+  parentId: string | null
+  fullType: string
+  namespace: string
+  mutexKey: string | null
+  dedupeKey: string | null
+  queuedAt: number
+  startedAt: number | null
+  endedAt: number | null
+  /** 'pending' → still queued or running; 'deduped' → answered by the dedupe phase without running. */
+  outcome: 'pending' | 'ok' | 'error' | 'cancelled' | 'deduped'
+  /** The dedupe mode applied to this dispatch, if any. */
+  dedupe: {phase: 'IN-FLIGHT' | 'QUICK-REPEAT'; mode: string} | null
+  /** Ran under the lock of an ancestor (or without a lock), not through the queue. */
+  unlocked: boolean
+  /** `String(error)` of a failed or cancelled dispatch. */
+  error: string | null
+}
+
+/** A Chrome Trace Event (only the fields this export uses). */
+export type ChromeTraceEvent = {
+  name: string
+  cat?: string
+  ph: 'X' | 'b' | 'e' | 'i' | 'M'
+  /** Microseconds. */
+  ts?: number
+  dur?: number
+  pid: number
+  tid: number
+  id?: string
+  s?: 't'
+  args?: Record<string, unknown>
+}
+
+/** JSON object format of the Chrome Trace Event specification. */
+export type ChromeTrace = {traceEvents: ChromeTraceEvent[]; displayTimeUnit: 'ms'}
+
+export type TraceRecorder = {
+  record: (event: MutexEvent) => void
+  /** Recorded dispatches, oldest first. */
+  entries: () => TraceEntry[]
+  toChromeTrace: () => ChromeTrace
+  clear: () => void
+}
+
+export function createTraceRecorder(capacity = DEFAULT_TRACE_CAPACITY, clock: {now: () => number} = {now: () => Date.now()}): TraceRecorder {
+  let ring: (TraceEntry | undefined)[] = new Array(capacity)
+  let next = 0
+  let byId = new Map<string, TraceEntry>()
+
+  const entryOf = (event: MutexEvent): TraceEntry => {
+    let entry = byId.get(event.dispatchId)
+    if (!entry) {
+      const {dispatchId, parentId, fullType, namespace, mutexKey, dedupeKey, at} = event
+      entry = {dispatchId, parentId, fullType, namespace, mutexKey, dedupeKey, queuedAt: at, startedAt: null, endedAt: null, outcome: 'pending', dedupe: null, unlocked: false, error: null}
+      const evicted = ring[next]
+      if (evicted) {
+        byId.delete(evicted.dispatchId)
+      }
+      ring[next] = entry
+      next = (next + 1) % capacity
+      byId.set(dispatchId, entry)
+    }
+    return entry
+  }
+
+  const entries = () => [...ring.slice(next), ...ring.slice(0, next)].filter((entry): entry is TraceEntry => entry !== undefined)
+
+  return {
+    record(event) {
+      const isFirstEvent = !byId.has(event.dispatchId)
+      const entry = entryOf(event)
+      switch (event.type) {
+        case 'dedupe':
+          entry.dedupe = {phase: event.phase, mode: event.mode}
+          // Answered without running, unless the mode lets it continue ('warn') — then 'queued'/'start' follow.
+          // 'latest' reports after the newest dispatch was queued.
+          if (isFirstEvent) {
+            entry.outcome = 'deduped'
+            entry.endedAt = event.at
+          }
+          break
+        case 'queued':
+          entry.outcome = 'pending'
+          entry.endedAt = null
+          break
+        case 'start':
+          entry.outcome = 'pending'
+          entry.endedAt = null
+          entry.startedAt = event.at
+          entry.unlocked = !event.locked
+          break
+        case 'error':
+          entry.error = String(event.error)
+          if (!event.started && entry.outcome === 'pending') {
+            // Rejected before it was queued (e.g. an already aborted signal)
+            entry.outcome = 'cancelled'
+            entry.endedAt = event.at
+          }
+          break
+        case 'finish':
+          entry.outcome = event.status
+          entry.endedAt = event.at
+          break
+      }
+    },
+    entries,
+    toChromeTrace: () => formatChromeTrace(entries(), clock.now()),
+    clear() {
+      ring = new Array(capacity)
+      next = 0
+      byId = new Map()
+    },
+  }
+}
+
+/** `now`: end of the slices of dispatches still running. */
+function formatChromeTrace(entries: TraceEntry[], now: number): ChromeTrace {
+  const pid = 1
+  const tidByTrack = new Map<string, number>()
+  const traceEvents: ChromeTraceEvent[] = [{name: 'process_name', ph: 'M', pid, tid: 0, args: {name: 'vuex-mutex'}}]
+  const tidOf = (track: string) => {
+    let tid = tidByTrack.get(track)
+    if (tid === undefined) {
+      tid = tidByTrack.size + 1
+      tidByTrack.set(track, tid)
+      traceEvents.push({name: 'thread_name', ph: 'M', pid, tid, args: {name: track === '' ? '(root)' : track}})
+    }
+    return tid
+  }
+
+  for (const entry of entries) {
+    const tid = tidOf(entry.mutexKey ?? UNLOCKED_TRACK)
+    const args = {dispatchId: entry.dispatchId, parentId: entry.parentId, outcome: entry.outcome, dedupeKey: entry.dedupeKey, error: entry.error ?? undefined}
+    const waitedUntil = entry.startedAt ?? (entry.outcome === 'cancelled' ? entry.endedAt : null)
+
+    // Waiting for the lock (async slice: queued dispatches overlap each other)
+    if (waitedUntil !== null && waitedUntil > entry.queuedAt) {
+      const id = `wait-${entry.dispatchId}`
+      traceEvents.push(
+        {name: `${entry.fullType} (waiting)`, cat: 'wait', ph: 'b', ts: micros(entry.queuedAt), pid, tid, id, args},
+        {name: `${entry.fullType} (waiting)`, cat: 'wait', ph: 'e', ts: micros(waitedUntil), pid, tid, id}
+      )
+    }
+    if (entry.startedAt !== null) {
+      const end = entry.endedAt ?? now
+      traceEvents.push({name: entry.fullType, cat: entry.unlocked ? 'run,unlocked' : 'run', ph: 'X', ts: micros(entry.startedAt), dur: micros(end - entry.startedAt), pid, tid, args})
+    }
+    if (entry.dedupe) {
+      const at = entry.outcome === 'deduped' ? entry.endedAt! : entry.queuedAt
+      traceEvents.push({name: `dedupe ${entry.dedupe.phase} ${entry.dedupe.mode}: ${entry.fullType}`, cat: 'dedupe', ph: 'i', s: 't', ts: micros(at), pid, tid, args})
+    }
+  }
+  return {traceEvents, displayTimeUnit: 'ms'}
+}
+
+function micros(millis: number): number {
+  return millis * 1000
+}
@@ -0,0 +1,138 @@
+// tests/devtools.spec.ts
+import {describe, it, expect, vi, afterEach, beforeEach} from 'vitest'
+import {createStore, type Store} from 'vuex'
+import {createPlainLogger, createVuexMutexPlugin} from '../src'
+
+/** Fake devtools API: records what the plugin sends and exposes the inspector handlers. */
+const devtools = vi.hoisted(() => {
+  const fake = {
+    layers: [] as any[],
+    inspectors: [] as any[],
+    timeline: [] as any[],
+    handlers: {} as Record<string, (payload: any) => void>,
+    api: null as any,
+    /** When set, setup waits for `attach()` (like devtools whose hook appears after the app is set up). */
+    deferSetup: false,
+    attach: null as null | (() => void),
+  }
+  fake.api = {
+    addTimelineLayer: (layer: any) => fake.layers.push(layer),
+    addInspector: (inspector: any) => fake.inspectors.push(inspector),
+    addTimelineEvent: ({event}: any) => fake.timeline.push(event),
+    sendInspectorTree: () => {},
+    sendInspectorState: () => {},
+    now: () => Date.now(),
+    on: {
+      getInspectorTree: (handler: any) => (fake.handlers.tree = handler),
+      getInspectorState: (handler: any) => (fake.handlers.state = handler),
+    },
+  }
+  return fake
+})
+
+vi.mock('@vue/devtools-api', () => ({
+  setupDevtoolsPlugin: (_descriptor: unknown, setup: (api: unknown) => void) => {
+    if (devtools.deferSetup) {
+      devtools.attach = () => setup(devtools.api)
+    } else {
+      setup(devtools.api)
+    }
+  },
+}))
+
+function makeDelayedAction(delay: number) {
+  return () => new Promise<void>((resolve) => setTimeout(resolve, delay))
+}
+
+describe('devtools integration', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('adds a timeline layer and an inspector with lock state and dedupe decisions', async () => {
+    const lines: string[] = []
+    const store = createStore({
+      devtools: false, // keep Vuex' own devtools plugin out of the fake API
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {save: makeDelayedAction(10)},
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, debug: true, devtools: true, dedupe: {inFlight: 'share'}, logger: createPlainLogger({write: (line) => lines.push(line)})})],
+    }) as Store<any>
+    const app = {provide: () => {}, config: {globalProperties: {}}}
+    store.install(app as any)
+    await vi.dynamicImportSettled()
+
+    expect(devtools.layers).toMatchObject([{id: 'vuex-mutex', label: 'Vuex Mutex'}])
+    expect(devtools.inspectors).toMatchObject([{id: 'vuex-mutex', label: 'Vuex Mutex'}])
+
+    const promiseOfFirst = store.dispatch('deal/save', {id: 1})
+    const promiseOfShared = store.dispatch('deal/save', {id: 1})
+    const promiseOfSecond = store.dispatch('deal/save', {id: 2})
+    await vi.advanceTimersByTimeAsync(5)
+
+    const tree = {app, inspectorId: 'vuex-mutex', filter: '', rootNodes: []}
+    devtools.handlers.tree!(tree)
+    expect(tree.rootNodes).toMatchObject([{id: 'deal/', label: 'deal/', tags: [{label: '1 running'}, {label: '1 queued'}]}])
+
+    const inspected = {app, inspectorId: 'vuex-mutex', nodeId: 'deal/', state: null as any}
+    devtools.handlers.state!(inspected)
+    expect(inspected.state.lock).toEqual([{key: 'state', value: 'locked'}])
+    expect(inspected.state.running).toMatchObject([{key: '#01', value: {fullType: 'deal/save', runningSince: '5 ms'}}])
+    expect(inspected.state.queued).toMatchObject([{key: '#03', value: {fullType: 'deal/save', queuedSince: '5 ms'}}])
+    expect(inspected.state['recent dedupe decisions']).toMatchObject([{key: '#02', value: {phase: 'IN-FLIGHT', mode: 'share'}}])
+
+    await vi.advanceTimersByTimeAsync(20)
+    await Promise.all([promiseOfFirst, promiseOfShared, promiseOfSecond])
+
+    // Grouped per dispatch id, durations on 'finish'; the debug trace no longer reaches the logger
+    expect(devtools.timeline.filter(({groupId}) => groupId === '01').map(({subtitle}) => subtitle)).toEqual(['#01 queued', '#01 start', '#01 finish'])
+    expect(devtools.timeline.find(({subtitle}) => subtitle === '#03 finish')).toMatchObject({
+      title: 'deal/save',
+      logType: 'default',
+      data: {status: 'ok', waitMillis: {_custom: {type: 'duration', value: 10}}, runMillis: {_custom: {value: 10}}},
+    })
+    expect(devtools.timeline.find(({subtitle}) => subtitle === '#02 dedupe')).toMatchObject({logType: 'warning'})
+    expect(lines.some((line) => line.includes('START'))).toBe(false)
+    expect(lines.some((line) => line.includes('[IN-FLIGHT]'))).toBe(true)
+
+    devtools.handlers.tree!(tree)
+    expect(tree.rootNodes).toMatchObject([{id: 'deal/', tags: [{label: 'idle'}]}])
+  })
+
+  it('moves the debug trace off the logger once devtools attach after the app was set up', async () => {
+    devtools.deferSetup = true
+    const lines: string[] = []
+    const store = createStore({
+      devtools: false,
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {save: makeDelayedAction(10)},
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, debug: true, devtools: true, logger: createPlainLogger({write: (line) => lines.push(line)})})],
+    }) as Store<any>
+    store.install({provide: () => {}, config: {globalProperties: {}}} as any)
+    await vi.dynamicImportSettled()
+
+    const promiseOfBefore = store.dispatch('deal/save', {id: 1})
+    await vi.advanceTimersByTimeAsync(10)
+    await promiseOfBefore
+    expect(lines.filter((line) => line.includes('START'))).toHaveLength(1)
+
+    devtools.attach!()
+    const promiseOfAfter = store.dispatch('deal/save', {id: 2})
+    await vi.advanceTimersByTimeAsync(10)
+    await promiseOfAfter
+    expect(lines.filter((line) => line.includes('START'))).toHaveLength(1)
+    devtools.deferSetup = false
+  })
+})
@@ -0,0 +1,151 @@
+// tests/distributed.spec.ts
+import {describe, it, expect, vi, afterEach, beforeEach} from 'vitest'
+import {createStore, type Store} from 'vuex'
+import {createBroadcastTransport, createVuexMutexPlugin, getVuexMutex, type MutexPluginOptions} from '../src'
+import {createMemoryTransportHub, recordDedupeDecisions} from '../src/testing'
+
+function makeDelayedAction(eventLog: string[], label: string, delay: number) {
+  return async () => {
+    eventLog.push(`${label}:start:${Date.now()}`)
+    await new Promise<void>((resolve) => setTimeout(resolve, delay))
+    eventLog.push(`${label}:end:${Date.now()}`)
+  }
+}
+
+/** A "tab": its own store and plugin instance, connected to the others through `crossTab.transport`. */
+function createTab(save: () => Promise<void>, options: MutexPluginOptions) {
+  const plugin = createVuexMutexPlugin({enabled: true, ...options})
+  const store = createStore({
+    modules: {
+      deal: {
+        namespaced: true,
+        actions: {save},
+      },
+    },
+    plugins: [plugin],
+  }) as Store<any>
+  return {store, plugin}
+}
+
+describe('cross-tab mode', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+  })
+
+  it('lease fallback: a lock key runs in one tab at a time', async () => {
+    const hub = createMemoryTransportHub()
+    const eventLog: string[] = []
+    const tabs = ['A', 'B'].map((label) => createTab(makeDelayedAction(eventLog, label, 50), {noDedupe: ['deal/save'], crossTab: {lockKeys: ['deal/'], transport: hub.connect()}}))
+
+    const promises = tabs.map(({store}) => store.dispatch('deal/save'))
+    await vi.advanceTimersByTimeAsync(200)
+    await Promise.all(promises)
+
+    // Both claim at 0; after the claim window the earlier (or, on a tie, the lower tab id) wins
+    expect(eventLog.map((line) => line.slice(2))).toEqual(['start:50', 'end:100', 'start:150', 'end:200'])
+    expect(new Set(eventLog.map((line) => line[0]))).toEqual(new Set(['A', 'B']))
+    expect(hub.messages.map(({kind}) => kind)).toEqual(expect.arrayContaining(['claim', 'withdraw', 'lease', 'release']))
+  })
+
+  it('lease fallback: the lease of a tab that stopped renewing expires', async () => {
+    const hub = createMemoryTransportHub()
+    const eventLog: string[] = []
+    const transportOfA = hub.connect()
+    const crossTab = {lockKeys: ['deal/*'], leaseMillis: 300}
+    const tabA = createTab(() => new Promise<void>(() => eventLog.push(`A:start:${Date.now()}`)), {logLevel: 'error', crossTab: {...crossTab, transport: transportOfA}})
+    const tabB = createTab(makeDelayedAction(eventLog, 'B', 10), {logLevel: 'error', crossTab: {...crossTab, transport: hub.connect()}})
+
+    void tabA.store.dispatch('deal/save')
+    await vi.advanceTimersByTimeAsync(60)
+    const promiseOfB = tabB.store.dispatch('deal/save')
+    await vi.advanceTimersByTimeAsync(40)
+    transportOfA.close() // frozen tab: still "holds" the key, but no longer renews its lease
+    await vi.advanceTimersByTimeAsync(400)
+    await promiseOfB
+
+    // Lease renewed at 100 (every leaseMillis / 3) → expires at 400 → B claims and wins 50 ms later
+    expect(eventLog).toEqual(['A:start:50', 'B:start:450', 'B:end:460'])
+  })
+
+  it('default transport: stores outside a browser (SSR) stay independent; closeCrossTab closes the channel', async () => {
+    const eventLog: string[] = []
+    const plugin = createVuexMutexPlugin({enabled: true, noDedupe: ['deal/save'], crossTab: {lockKeys: ['deal/']}})
+    const stores = ['A', 'B'].map((label) =>
+      createStore({
+        modules: {deal: {namespaced: true, actions: {save: makeDelayedAction(eventLog, label, 50)}}},
+        plugins: [plugin],
+      }) as Store<any>
+    )
+
+    // Node has a BroadcastChannel too, but no window → no transport, each store keeps its own locks
+    expect(createBroadcastTransport()).toBeNull()
+    const promises = stores.map((store) => store.dispatch('deal/save'))
+    await vi.advanceTimersByTimeAsync(50)
+    await Promise.all(promises)
+    expect(eventLog).toEqual(['A:start:0', 'B:start:0', 'A:end:50', 'B:end:50'])
+
+    vi.stubGlobal('window', {})
+    const transport = createBroadcastTransport('vuex-mutex-test')!
+    expect(transport).not.toBeNull()
+    transport.close!()
+    expect(() => transport.postMessage({kind: 'release', from: 'test', name: 'deal/'})).toThrow()
+  })
+
+  it('closeCrossTab releases the leases of a store and falls back to this tab only', async () => {
+    const hub = createMemoryTransportHub()
+    const eventLog: string[] = []
+    const crossTab = {lockKeys: ['deal/'], leaseMillis: 3000}
+    const tabA = createTab(makeDelayedAction(eventLog, 'A', 500), {noDedupe: ['deal/save'], crossTab: {...crossTab, transport: hub.connect()}})
+    const tabB = createTab(makeDelayedAction(eventLog, 'B', 10), {noDedupe: ['deal/save'], crossTab: {...crossTab, transport: hub.connect()}})
+
+    const promiseOfA = tabA.store.dispatch('deal/save')
+    await vi.advanceTimersByTimeAsync(60) // A holds the lease
+    const promiseOfB = tabB.store.dispatch('deal/save')
+    await vi.advanceTimersByTimeAsync(40)
+    getVuexMutex(tabA.store)!.closeCrossTab()
+    await vi.advanceTimersByTimeAsync(60)
+
+    // A announced the release → B claims at 100 and wins 50 ms later, long before the lease expires
+    expect(eventLog).toEqual(['A:start:50', 'B:start:150', 'B:end:160'])
+    await promiseOfB
+    hub.messages.length = 0
+    await vi.advanceTimersByTimeAsync(400)
+    await promiseOfA
+    expect(hub.messages).toEqual([]) // A no longer renews or announces anything
+  })
+
+  it('Web Locks: dedupe sees the dispatches of other tabs; other payloads wait for the lock', async () => {
+    const hub = createMemoryTransportHub({webLocks: true})
+    const eventLog: string[] = []
+    const options = (label: string): MutexPluginOptions => ({
+      dedupe: {inFlight: 'share', quickRepeat: 'drop', thresholdMillis: 100},
+      crossTab: {lockKeys: ['deal/'], transport: hub.connect()},
+      logLevel: 'error',
+      onStart: ({dispatchId}) => eventLog.push(`${label}:#${dispatchId}`),
+    })
+    const tabA = createTab(makeDelayedAction(eventLog, 'A', 50), options('A'))
+    const tabB = createTab(makeDelayedAction(eventLog, 'B', 50), options('B'))
+    const decisionsOfB = recordDedupeDecisions(tabB.plugin)
+
+    const promiseOfA = tabA.store.dispatch('deal/save', {id: 1})
+    await vi.advanceTimersByTimeAsync(0)
+    const promiseOfShared = tabB.store.dispatch('deal/save', {id: 1})
+    const promiseOfOther = tabB.store.dispatch('deal/save', {id: 2})
+    await vi.advanceTimersByTimeAsync(60)
+    await expect(tabB.store.dispatch('deal/save', {id: 1})).resolves.toBeUndefined()
+    await vi.advanceTimersByTimeAsync(50)
+    await Promise.all([promiseOfA, expect(promiseOfShared).resolves.toBeUndefined(), promiseOfOther])
+
+    expect(eventLog).toEqual(['A:#01', 'A:start:0', 'A:end:50', 'B:#02', 'B:start:50', 'B:end:100'])
+    expect(decisionsOfB.decisions).toMatchObject([
+      {dispatchId: '01', phase: 'IN-FLIGHT', mode: 'share'},
+      {dispatchId: '03', phase: 'QUICK-REPEAT', mode: 'drop', deltaMillis: 10},
+    ])
+  })
+})
@@ -0,0 +1,129 @@
+// tests/lock.spec.ts
+import {describe, it, expect, vi, afterEach} from 'vitest'
+import {DispatchLock} from '../src/lock'
+
+/** Flushes pending microtasks (lock grants resolve asynchronously). */
+const flush = () => new Promise<void>((r) => setTimeout(r, 0))
+
+describe('DispatchLock', () => {
+  it('lets readers share the lock while writers are exclusive', async () => {
+    const lock = new DispatchLock()
+    const granted: string[] = []
+
+    const releaseR1 = lock.acquire({access: 'read'}).then((release) => (granted.push('R1'), release))
+    const releaseR2 = lock.acquire({access: 'read'}).then((release) => (granted.push('R2'), release))
+    const releaseW = lock.acquire({access: 'write'}).then((release) => (granted.push('W'), release))
+    await flush()
+    expect(granted).toEqual(['R1', 'R2'])
+
+    ;(await releaseR1)()
+    await flush()
+    expect(granted).toEqual(['R1', 'R2']) // R2 still reads
+
+    ;(await releaseR2)()
+    await flush()
+    expect(granted).toEqual(['R1', 'R2', 'W'])
+    ;(await releaseW)()
+    expect(lock.isLocked()).toBe(false)
+  })
+
+  it('queues readers behind a waiting writer (no writer starvation)', async () => {
+    const lock = new DispatchLock()
+    const granted: string[] = []
+
+    const releaseR1 = await lock.acquire({access: 'read'})
+    void lock.acquire({access: 'write'}).then((release) => (granted.push('W'), setTimeout(release, 0)))
+    void lock.acquire({access: 'read'}).then(() => granted.push('R2'))
+    await flush()
+    expect(granted).toEqual([]) // R2 does not overtake the waiting writer
+
+    releaseR1()
+    await flush()
+    await flush()
+    expect(granted).toEqual(['W', 'R2'])
+  })
+
+  it('admits up to maxConcurrent writers at once', async () => {
+    const lock = new DispatchLock()
+    const granted: string[] = []
+
+    const releases = ['W1', 'W2', 'W3'].map((label) => lock.acquire({access: 'write', maxConcurrent: 2}).then((release) => (granted.push(label), release)))
+    await flush()
+    expect(granted).toEqual(['W1', 'W2'])
+
+    ;(await releases[0]!)()
+    await flush()
+    expect(granted).toEqual(['W1', 'W2', 'W3'])
+  })
+
+  it('serves higher priority first without preempting the holder', async () => {
+    const lock = new DispatchLock()
+    const granted: string[] = []
+
+    const releaseHolder = await lock.acquire()
+    void lock.acquire({priority: 0}).then((release) => (granted.push('low'), release()))
+    void lock.acquire({priority: 5}).then((release) => (granted.push('high'), release()))
+    void lock.acquire({priority: 5}).then((release) => (granted.push('high2'), release()))
+    await flush()
+    expect(granted).toEqual([])
+
+    releaseHolder()
+    await flush()
+    expect(granted).toEqual(['high', 'high2', 'low'])
+  })
+
+  describe('aging', () => {
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('lets long-waiting low-priority work overtake newer higher-priority work', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(0)
+      const lock = new DispatchLock(100) // +1 priority per 100 ms waiting
+      const granted: string[] = []
+
+      const releaseHolder = await lock.acquire()
+      void lock.acquire({priority: 0}).then((release) => (granted.push('old-low'), release()))
+      vi.setSystemTime(300) // old-low has aged to 3
+      void lock.acquire({priority: 2}).then((release) => (granted.push('new-high'), release()))
+
+      releaseHolder()
+      await vi.advanceTimersByTimeAsync(0)
+      expect(granted).toEqual(['old-low', 'new-high'])
+    })
+  })
+
+  it('removes aborted waiters from the queue and rejects them with the abort reason', async () => {
+    const lock = new DispatchLock()
+    const granted: string[] = []
+    const controller = new AbortController()
+
+    const releaseReader = await lock.acquire({access: 'read'})
+    const writer = lock.acquire({access: 'write', signal: controller.signal})
+    void lock.acquire({access: 'read'}).then(() => granted.push('R2'))
+    await flush()
+    expect(granted).toEqual([]) // blocked behind the waiting writer
+
+    controller.abort('cancelled')
+    await expect(writer).rejects.toBe('cancelled')
+    await flush()
+    expect(granted).toEqual(['R2']) // the writer left the queue → R2 joins the reader
+    releaseReader()
+    expect(lock.isIdle()).toBe(false) // R2 still holds it
+  })
+
+  it('ignores repeated release calls', async () => {
+    const lock = new DispatchLock()
+    const release = await lock.acquire()
+    const second = lock.acquire()
+    release()
+    release()
+    const releaseSecond = await second
+    expect(lock.isLocked()).toBe(true)
+    expect(lock.isIdle()).toBe(false)
+    releaseSecond()
+    expect(lock.isLocked()).toBe(false)
+    expect(lock.isIdle()).toBe(true)
+  })
+})
@@ -0,0 +1,52 @@
+// tests/logger.spec.ts
+import {describe, it, expect, vi, afterEach} from 'vitest'
+import {createConsoleLogger, createLogWrite, createPlainLogger, type LogLevel, type VuexMutexLogger} from '../src/logger'
+
+describe('loggers', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('console logger keeps the colored trace lines and passes errors through', () => {
+    const info = vi.spyOn(console, 'info').mockImplementation(() => {})
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const logger = createConsoleLogger()
+    const failure = new Error('API failure')
+
+    logger.debug('[#01] ▶ START deal/save', {event: 'start', dispatchId: '01'})
+    logger.debug('[#01] ✔ DONE (error occurred) deal/save', {event: 'done', status: 'error'})
+    logger.error('[#01] ✖ ERROR deal/save', {event: 'error', error: failure})
+
+    expect(info.mock.calls).toEqual([
+      ['%c[vuex-mutex][#01] ▶ START deal/save', 'color: #03A9F4;'],
+      ['%c[vuex-mutex][#01] ✔ DONE (error occurred) deal/save', 'color: #FF9800;'],
+    ])
+    expect(error.mock.calls).toEqual([['[vuex-mutex][#01] ✖ ERROR deal/save', failure]])
+  })
+
+  it('plain logger writes text or JSON lines without styling', () => {
+    const lines: string[] = []
+    const write = (line: string, level: LogLevel) => lines.push(`${level}|${line}`)
+    const fields = {event: 'cancelled', dispatchId: '03', fullType: 'deal/save', error: new Error('gave up')}
+
+    createPlainLogger({write}).warn('[#03] ✖ CANCELLED deal/save', fields)
+    createPlainLogger({format: 'json', write}).warn('[#03] ✖ CANCELLED deal/save', fields)
+
+    expect(lines).toEqual([
+      'warn|[vuex-mutex] WARN [#03] ✖ CANCELLED deal/save — Error: gave up',
+      'warn|{"level":"warn","message":"[vuex-mutex][#03] ✖ CANCELLED deal/save","event":"cancelled","dispatchId":"03","fullType":"deal/save","error":"Error: gave up"}',
+    ])
+  })
+
+  it('drops lines below the minimum level', () => {
+    const levels: LogLevel[] = []
+    const record = (level: LogLevel) => () => levels.push(level)
+    const logger: VuexMutexLogger = {debug: record('debug'), info: record('info'), warn: record('warn'), error: record('error')}
+    const log = createLogWrite(logger, 'warn')
+
+    for (const level of ['debug', 'info', 'warn', 'error'] as const) {
+      log(level, 'message', {event: 'test'})
+    }
+    expect(levels).toEqual(['warn', 'error'])
+  })
+})
@@ -0,0 +1,118 @@
+// tests/metrics.spec.ts
+import {describe, it, expect, vi, afterEach, beforeEach} from 'vitest'
+import {createStore, type Store} from 'vuex'
+import {createVuexMutexPlugin, getVuexMutex, type MutexEvent} from '../src'
+import {createMetricsRecorder} from '../src/metrics'
+
+const base = {parentId: null, namespace: 'deal/', mutexKey: 'deal/', dedupeKey: null, at: 0}
+
+function finish(dispatchId: string, fullType: string, waitMillis: number, runMillis: number | null, status: 'ok' | 'error' | 'cancelled' = 'ok'): MutexEvent {
+  return {...base, type: 'finish', dispatchId, fullType, status, waitMillis, runMillis, totalMillis: waitMillis + (runMillis ?? 0)}
+}
+
+describe('metrics', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('recorder aggregates per action and lock key with histograms and estimated percentiles', () => {
+    const recorder = createMetricsRecorder([10, 100])
+    for (let i = 0; i < 8; i++) {
+      recorder.record(finish(String(i), 'deal/save', 0, 5))
+    }
+    recorder.record(finish('8', 'deal/save', 50, 40, 'error'))
+    recorder.record(finish('9', 'deal/save', 300, null, 'cancelled'))
+    recorder.record(finish('10', 'deal/load', 0, 200))
+    recorder.record({...base, type: 'dedupe', dispatchId: '11', fullType: 'deal/save', phase: 'IN-FLIGHT', mode: 'share', deltaMillis: null, thresholdMillis: 500})
+    recorder.record({...base, type: 'start', dispatchId: '12', fullType: 'deal/save', waitMillis: 0, locked: true})
+
+    const {actions, lockKeys} = recorder.snapshot()
+    expect(actions['deal/save']).toMatchObject({dispatches: 10, errors: 1, cancelled: 1, dedupes: {'IN-FLIGHT/share': 1}})
+    // A cancelled dispatch never started → no wait/run observation
+    expect(actions['deal/save']!.runMillis).toEqual({
+      count: 9,
+      sumMillis: 80,
+      maxMillis: 40,
+      buckets: [
+        {le: 10, count: 8},
+        {le: 100, count: 9},
+        {le: Infinity, count: 9},
+      ],
+      // Interpolated within the bucket: 10..40 ms (capped at the maximum) for p90/p99
+      p50: expect.closeTo(5.625),
+      p90: expect.closeTo(13),
+      p99: expect.closeTo(37.3),
+    })
+    // Above the last bound: interpolated between it and the maximum
+    expect(actions['deal/load']!.runMillis).toMatchObject({p50: 150, buckets: [{count: 0}, {count: 0}, {count: 1}]})
+    expect(lockKeys['deal/']).toMatchObject({dispatches: 11, errors: 1})
+
+    const text = recorder.toPrometheus()
+    expect(text).toContain('# TYPE vuex_mutex_action_dispatches_total counter\n')
+    expect(text).toContain('vuex_mutex_action_dispatches_total{action="deal/save",status="ok"} 8\n')
+    expect(text).toContain('vuex_mutex_action_dedupes_total{action="deal/save",phase="IN-FLIGHT",mode="share"} 1\n')
+    expect(text).toContain('vuex_mutex_action_run_seconds_bucket{action="deal/save",le="0.01"} 8\n')
+    expect(text).toContain('vuex_mutex_action_run_seconds_bucket{action="deal/save",le="+Inf"} 9\n')
+    expect(text).toContain('vuex_mutex_action_run_seconds_sum{action="deal/save"} 0.08\n')
+    expect(text).toContain('vuex_mutex_lock_wait_seconds_count{lock_key="deal/"} 10\n')
+
+    recorder.reset()
+    expect(recorder.snapshot()).toEqual({since: 0, actions: {}, lockKeys: {}})
+  })
+
+  it('recorder keeps own series for the first maxLockKeys lock keys and groups the rest', () => {
+    const recorder = createMetricsRecorder([10], undefined, 2)
+    for (const dealId of [1, 2, 3, 4, 1]) {
+      recorder.record({...finish(String(dealId), 'deal/save', 0, 5), mutexKey: `deal/save:${dealId}`})
+    }
+
+    const {actions, lockKeys} = recorder.snapshot()
+    expect(actions['deal/save']).toMatchObject({dispatches: 5})
+    expect(Object.keys(lockKeys)).toEqual(['deal/save:1', 'deal/save:2', '(other)'])
+    expect(lockKeys['deal/save:1']).toMatchObject({dispatches: 2})
+    expect(lockKeys['(other)']).toMatchObject({dispatches: 2})
+    expect(recorder.toPrometheus()).toContain('vuex_mutex_lock_dispatches_total{lock_key="(other)",status="ok"} 2\n')
+
+    const withoutLockKeys = createMetricsRecorder([10], undefined, 0)
+    withoutLockKeys.record(finish('1', 'deal/save', 0, 5))
+    expect(withoutLockKeys.snapshot()).toMatchObject({actions: {'deal/save': {dispatches: 1}}, lockKeys: {}})
+  })
+
+  it('is collected from the dispatches of a store and reset with resetStats', async () => {
+    const store = createStore({
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {
+            save: () => new Promise<void>((resolve) => setTimeout(resolve, 20)),
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, dedupe: {inFlight: 'share'}})],
+    }) as Store<any>
+    const mutex = getVuexMutex(store)!
+
+    const promises = [store.dispatch('deal/save', {id: 1}), store.dispatch('deal/save', {id: 1}), store.dispatch('deal/save', {id: 2})]
+    await vi.advanceTimersByTimeAsync(40)
+    await Promise.all(promises)
+
+    expect(mutex.metrics()!.actions['deal/save']).toMatchObject({
+      dispatches: 2,
+      dedupes: {'IN-FLIGHT/share': 1},
+      waitMillis: {count: 2, sumMillis: 20, maxMillis: 20},
+      runMillis: {count: 2, sumMillis: 40},
+    })
+    expect(mutex.prometheusMetrics()).toContain('vuex_mutex_lock_dispatches_total{lock_key="deal/",status="ok"} 2\n')
+
+    mutex.resetStats()
+    expect(mutex.metrics()).toEqual({since: 40, actions: {}, lockKeys: {}})
+
+    const disabled = createStore({plugins: [createVuexMutexPlugin({enabled: true, metrics: false})]}) as Store<any>
+    expect(getVuexMutex(disabled)!.metrics()).toBeUndefined()
+  })
+})
@@ -0,0 +1,165 @@
+// tests/testing.spec.ts
+import {describe, it, expect} from 'vitest'
+import {createStore, type Store} from 'vuex'
+import {createVuexMutexPlugin, getVuexMutex, QueueTimeoutError} from '../src'
+import {createTestClock, expectSerialized, recordDedupeDecisions} from '../src/testing'
+
+describe('testing helpers', () => {
+  it('enabled: true runs the plugin under Vitest; false and the default "auto" leave the store alone', () => {
+    expect(getVuexMutex(createStore({plugins: [createVuexMutexPlugin({enabled: true})]}))).toBeDefined()
+    expect(getVuexMutex(createStore({plugins: [createVuexMutexPlugin()]}))).toBeUndefined()
+    expect(getVuexMutex(createStore({plugins: [createVuexMutexPlugin({enabled: false})]}))).toBeUndefined()
+  })
+
+  it('test clock drives the quick-repeat window; dedupe decisions are recorded without timestamps', async () => {
+    const clock = createTestClock(1000)
+    let runs = 0
+    const plugin = createVuexMutexPlugin({enabled: true, clock, dedupe: {inFlight: 'share', quickRepeat: 'drop', thresholdMillis: 100}})
+    const store = createStore({
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {
+            load: async () => {
+              runs += 1
+              await clock.sleep(10)
+            },
+          },
+        },
+      },
+      plugins: [plugin],
+    }) as Store<any>
+    const recorder = recordDedupeDecisions(plugin)
+
+    const promises = [store.dispatch('deal/load'), store.dispatch('deal/load')]
+    await clock.advance(10)
+    await Promise.all(promises)
+    await clock.advance(50)
+    await store.dispatch('deal/load') // 50 ms after the last run → dropped
+    await clock.advance(100)
+    const promiseOfLater = store.dispatch('deal/load')
+    await clock.advance(10)
+    await promiseOfLater
+    recorder.stop()
+    await store.dispatch('deal/load')
+
+    expect(runs).toBe(2)
+    expect(clock.pending()).toBe(0)
+    expect(recorder.decisions).toEqual([
+      {dispatchId: '02', fullType: 'deal/load', dedupeKey: 'deal/|load|payload=undefined', phase: 'IN-FLIGHT', mode: 'share', deltaMillis: null},
+      {dispatchId: '03', fullType: 'deal/load', dedupeKey: 'deal/|load|payload=undefined', phase: 'QUICK-REPEAT', mode: 'drop', deltaMillis: 50},
+    ])
+  })
+
+  it('test clock at 0: a dispatch that finished at t=0 starts the quick-repeat window', async () => {
+    const clock = createTestClock()
+    let runs = 0
+    const store = createStore({
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {load: () => (runs += 1)},
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, clock, dedupe: {quickRepeat: 'drop'}})],
+    }) as Store<any>
+
+    await expect(store.dispatch('deal/load')).resolves.toBe(1)
+    await expect(store.dispatch('deal/load')).resolves.toBeUndefined()
+    expect(runs).toBe(1)
+  })
+
+  it('test clock drives maxWaitMillis', async () => {
+    const clock = createTestClock()
+    const store = createStore({
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {
+            save: () => clock.sleep(100),
+            load: () => {},
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, clock, maxWaitMillis: 30})],
+    }) as Store<any>
+
+    const promiseOfSave = store.dispatch('deal/save')
+    const promiseOfLoad = store.dispatch('deal/load')
+    await clock.advance(29)
+    expect(getVuexMutex(store)!.snapshot().locks[0]!.queued).toHaveLength(1)
+    await clock.advance(1)
+    await expect(promiseOfLoad).rejects.toBeInstanceOf(QueueTimeoutError)
+    await clock.advance(70)
+    await promiseOfSave
+  })
+
+  it('test clock keeps settling while the continuations set or clear timers', async () => {
+    const clock = createTestClock()
+    const ticks = async (count: number) => {
+      for (let tick = 0; tick < count; tick++) {
+        await Promise.resolve()
+      }
+    }
+    const store = createStore({
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {
+            save: async () => {
+              await clock.sleep(10)
+              const timer = clock.setTimeout(() => {}, 1000)
+              await ticks(90)
+              clock.clearTimeout(timer)
+              await ticks(90)
+              await clock.sleep(10)
+              return 'saved'
+            },
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, clock})],
+    }) as Store<any>
+
+    let result: unknown
+    void store.dispatch('deal/save').then((value) => (result = value))
+    await clock.advance(20)
+
+    expect(result).toBe('saved')
+    expect(clock.pending()).toBe(0)
+  })
+
+  it('expectSerialized passes for one lock and reports overlapping runs across locks', async () => {
+    const clock = createTestClock()
+    const store = createStore({
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {
+            save: async ({dispatch}) => {
+              await clock.sleep(10)
+              await dispatch('validate')
+            },
+            validate: () => clock.sleep(5),
+          },
+        },
+        user: {
+          namespaced: true,
+          actions: {load: () => clock.sleep(20)},
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, clock, trace: true, noDedupe: [/.*/]})],
+    }) as Store<any>
+
+    const promises = [store.dispatch('deal/save'), store.dispatch('deal/save'), store.dispatch('user/load')]
+    await clock.advance(30)
+    await Promise.all(promises)
+
+    // deal/validate runs inside deal/save (reentrant) → not an overlap
+    expect(() => expectSerialized(store, [/^deal\//])).not.toThrow()
+    expect(() => expectSerialized(store, ['deal/save', 'user/load'])).toThrow(
+      'expectSerialized: expected [deal/save, user/load] to run one at a time, but:\n  #01 deal/save (0–15) overlaps #03 user/load (0–20)\n  #02 deal/save (15–30) overlaps #03 user/load (0–20)'
+    )
+    expect(() => expectSerialized(createStore({}), ['deal/save'])).toThrow('not installed')
+  })
+})
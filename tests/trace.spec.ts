@@ -0,0 +1,85 @@
+// tests/trace.spec.ts
+import {describe, it, expect, vi, afterEach, beforeEach} from 'vitest'
+import {createStore, type Store} from 'vuex'
+import {createVuexMutexPlugin, getVuexMutex} from '../src'
+
+function wait(delay: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, delay))
+}
+
+describe('trace recorder', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(0)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('records dispatches with parents, outcomes and dedupe decisions and exports a Chrome trace', async () => {
+    const store = createStore({
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {
+            save: async ({dispatch}) => {
+              await wait(10)
+              await dispatch('validate')
+            },
+            validate: () => wait(5),
+            load: async () => {
+              await wait(5)
+              throw new Error('API failure')
+            },
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, dedupe: {inFlight: 'share'}, trace: true})],
+    }) as Store<any>
+    const mutex = getVuexMutex(store)!
+
+    const promiseOfSave = store.dispatch('deal/save')
+    const promiseOfShared = store.dispatch('deal/save')
+    const promiseOfLoad = store.dispatch('deal/load')
+    await vi.advanceTimersByTimeAsync(30)
+    await Promise.all([promiseOfSave, promiseOfShared, expect(promiseOfLoad).rejects.toThrow('API failure')])
+
+    expect(mutex.trace()).toEqual([
+      expect.objectContaining({dispatchId: '01', parentId: null, queuedAt: 0, startedAt: 0, endedAt: 15, outcome: 'ok', unlocked: false}),
+      expect.objectContaining({dispatchId: '02', outcome: 'deduped', dedupe: {phase: 'IN-FLIGHT', mode: 'share'}, startedAt: null, endedAt: 0}),
+      expect.objectContaining({dispatchId: '03', fullType: 'deal/load', queuedAt: 0, startedAt: 15, endedAt: 20, outcome: 'error', error: 'Error: API failure'}),
+      expect.objectContaining({dispatchId: '04', fullType: 'deal/validate', parentId: '01', queuedAt: 10, startedAt: 10, endedAt: 15, outcome: 'ok', unlocked: true}),
+    ])
+
+    const {traceEvents} = mutex.chromeTrace()!
+    expect(traceEvents.filter(({ph}) => ph === 'M').map(({args}) => args!.name)).toEqual(['vuex-mutex', 'deal/'])
+    expect(traceEvents.filter(({ph}) => ph === 'X').map(({name, ts, dur, tid}) => ({name, ts, dur, tid}))).toEqual([
+      {name: 'deal/save', ts: 0, dur: 15000, tid: 1},
+      {name: 'deal/load', ts: 15000, dur: 5000, tid: 1},
+      {name: 'deal/validate', ts: 10000, dur: 5000, tid: 1},
+    ])
+    expect(traceEvents.filter(({ph}) => ph === 'b' || ph === 'e')).toMatchObject([
+      {ph: 'b', name: 'deal/load (waiting)', ts: 0, id: 'wait-03'},
+      {ph: 'e', ts: 15000, id: 'wait-03'},
+    ])
+    expect(traceEvents.find(({ph}) => ph === 'i')).toMatchObject({name: 'dedupe IN-FLIGHT share: deal/save', ts: 0, args: {dispatchId: '02'}})
+
+    mutex.clearTrace()
+    expect(mutex.trace()).toEqual([])
+  })
+
+  it('keeps only the last `capacity` dispatches', async () => {
+    const store = createStore({
+      actions: {ping: () => {}},
+      plugins: [createVuexMutexPlugin({enabled: true, noDedupe: ['ping'], trace: {capacity: 2}})],
+    }) as Store<any>
+
+    for (let i = 0; i < 3; i++) {
+      await store.dispatch('ping')
+    }
+
+    expect(getVuexMutex(store)!.trace()!.map(({dispatchId}) => dispatchId)).toEqual(['02', '03'])
+    expect(getVuexMutex(createStore({plugins: [createVuexMutexPlugin({enabled: true})]}))!.trace()).toBeUndefined()
+  })
+})
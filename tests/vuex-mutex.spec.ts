@@ -1,7 +1,23 @@
 // tests/vuex-mutex.spec.ts
 import {describe, it, expect, vi, afterEach, beforeEach} from 'vitest'
 import {createStore, type Store} from 'vuex'
-import {createVuexMutexPlugin} from '../src'
+import {
+  ActionStuckError,
+  createPlainLogger,
+  DeadlockError,
+  createVuexMutexPlugin,
+  DispatchAbortedError,
+  DispatchSupersededError,
+  DuplicateDispatchError,
+  getActionSignal,
+  getVuexMutex,
+  IdleTimeoutError,
+  isVuexMutexError,
+  type MutexEvent,
+  QueueTimeoutError,
+  type StuckActionEvent,
+  whenIdle,
+} from '../src'
 
 /**
  * Helper action that waits `delay` ms and logs start/end with timestamps into an event log.
@@ -18,12 +34,9 @@ describe('vuex-mutex plugin (per-module serialization)', () => {
   beforeEach(() => {
     vi.useFakeTimers()
     vi.setSystemTime(0)
-    // Force plugin ON in this spec (Vitest sets VITEST=true → plugin would noop)
-    vi.stubEnv('VITEST', '')
   })
 
   afterEach(() => {
-    vi.unstubAllEnvs()
     vi.useRealTimers()
   })
 
@@ -40,7 +53,7 @@ describe('vuex-mutex plugin (per-module serialization)', () => {
           },
         },
       },
-      plugins: [createVuexMutexPlugin()],
+      plugins: [createVuexMutexPlugin({enabled: true})],
     }) as Store<any>
 
     // Two dispatches almost at the same time into the same module "a"
@@ -75,7 +88,7 @@ describe('vuex-mutex plugin (per-module serialization)', () => {
           actions: {testAction: makeDelayedAction(eventLog, 'B', 50)},
         },
       },
-      plugins: [createVuexMutexPlugin()], // one mutex per namespace
+      plugins: [createVuexMutexPlugin({enabled: true})], // one mutex per namespace
     }) as Store<any>
 
     const promiseOfActionInTestModule1 = store.dispatch('testModule1/testAction')
@@ -96,7 +109,7 @@ describe('vuex-mutex plugin (per-module serialization)', () => {
 
   it('is safe to register the plugin twice (no double wrapping of dispatch)', async () => {
     const eventLog: string[] = []
-    const plugin = createVuexMutexPlugin()
+    const plugin = createVuexMutexPlugin({enabled: true})
 
     const store = createStore({
       modules: {
@@ -141,7 +154,7 @@ describe('vuex-mutex plugin (per-module serialization)', () => {
         },
       },
       // Only action types matching /^a\// are serialized
-      plugins: [createVuexMutexPlugin({include: [/^testModule1\//]})],
+      plugins: [createVuexMutexPlugin({enabled: true, include: [/^testModule1\//]})],
     }) as Store<any>
 
     // Two dispatches into a/* -> must run one after the other (A1 then A2)
@@ -194,7 +207,7 @@ describe('vuex-mutex plugin (per-module serialization)', () => {
           actions: {testAction: makeDelayedAction(eventLog, 'A', 50)},
         },
       },
-      plugins: [createVuexMutexPlugin({dedupe: {inFlight: 'share'}})],
+      plugins: [createVuexMutexPlugin({enabled: true, dedupe: {inFlight: 'share'}})],
     }) as Store<any>
 
     // Dispatch the same action with identical payload twice while the first is in-flight.
@@ -219,7 +232,7 @@ describe('vuex-mutex plugin (per-module serialization)', () => {
           actions: {testAction: makeDelayedAction([], 'A', 50)},
         },
       },
-      plugins: [createVuexMutexPlugin({dedupe: {inFlight: 'block'}})],
+      plugins: [createVuexMutexPlugin({enabled: true, dedupe: {inFlight: 'block'}})],
     }) as Store<any>
 
     const promiseOfActionInTestModule = store.dispatch('testModule/testAction', {q: 1})
@@ -234,6 +247,47 @@ describe('vuex-mutex plugin (per-module serialization)', () => {
     await promiseOfActionInTestModule
   })
 
+  it('dedupe block: typed DuplicateDispatchError, thrown synchronously or rejected as configured', async () => {
+    const store = createStore({
+      modules: {
+        testModule: {
+          namespaced: true,
+          actions: {
+            saveAction: makeDelayedAction([], 'S', 10),
+            submitAction: makeDelayedAction([], 'B', 10),
+          },
+        },
+      },
+      plugins: [
+        createVuexMutexPlugin({
+          enabled: true,
+          dedupe: {inFlight: 'block', quickRepeat: 'block', thresholdMillis: 100},
+          rules: [{match: 'testModule/submitAction', block: 'reject'}],
+        }),
+      ],
+    }) as Store<any>
+
+    const promiseOfSave = store.dispatch('testModule/saveAction', {id: 1})
+    let blocked: unknown
+    try {
+      store.dispatch('testModule/saveAction', {id: 1})
+    } catch (error) {
+      blocked = error
+    }
+    expect(blocked).toBeInstanceOf(DuplicateDispatchError)
+    expect(isVuexMutexError(blocked)).toBe(true)
+    expect(blocked).toMatchObject({phase: 'IN-FLIGHT', fullType: 'testModule/saveAction', deltaMillis: null, thresholdMillis: 100})
+
+    const promiseOfSubmit = store.dispatch('testModule/submitAction')
+    await vi.advanceTimersByTimeAsync(30)
+    await Promise.all([promiseOfSave, promiseOfSubmit])
+
+    // block: 'reject' → a rejected promise instead of a synchronous throw
+    const promiseOfRepeat = store.dispatch('testModule/submitAction')
+    await expect(promiseOfRepeat).rejects.toMatchObject({phase: 'QUICK-REPEAT', deltaMillis: 10, thresholdMillis: 100})
+    expect(isVuexMutexError(new Error('API failure'))).toBe(false)
+  })
+
   // C) Quick-repeat: ensure timers run before awaiting the first dispatch ---
   it('dedupe quick-repeat: drop ignores immediate repeat within window', async () => {
     const store = createStore({
@@ -245,20 +299,1048 @@ describe('vuex-mutex plugin (per-module serialization)', () => {
       },
       plugins: [
         createVuexMutexPlugin({
-          dedupe: {quickRepeat: 'drop', thresholdMillis: 100},
+          enabled: true,
+          dedupe: {quickRepeat: 'drop', thresholdMillis: 100},
+        }),
+      ],
+    }) as Store<any>
+
+    // Start first execution, then advance timers, then await it
+    const promiseOfActionInTestModule = store.dispatch('testModule/testAction', {testPayloadProperty: 1})
+    await vi.runOnlyPendingTimersAsync() // +10ms -> completes first call
+    await promiseOfActionInTestModule
+
+    // Immediate repeat (0ms < 100ms window) -> dropped (resolves immediately to undefined)
+    const result = await store.dispatch('testModule/testAction', {testPayloadProperty: 1})
+    expect(result).toBeUndefined()
+  }, 1000)
+
+  it('dedupe key: omitted payload fields do not distinguish duplicates', async () => {
+    const eventLog: string[] = []
+    const store = createStore({
+      modules: {
+        testModule: {
+          namespaced: true,
+          actions: {testAction: makeDelayedAction(eventLog, 'A', 50)},
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, dedupe: {inFlight: 'share', key: {omit: ['timestamp']}}})],
+    }) as Store<any>
+
+    const promiseOfAction1 = store.dispatch('testModule/testAction', {id: 1, timestamp: 1})
+    const promiseOfAction2 = store.dispatch('testModule/testAction', {id: 1, timestamp: 2}) // same key → shared
+
+    await vi.advanceTimersByTimeAsync(50)
+    await Promise.all([promiseOfAction1, promiseOfAction2])
+
+    expect(eventLog).toEqual(['A:start:0', 'A:end:50'])
+  })
+
+  it('dedupe key: per-action rules win over the global key and null opts a call out of dedupe', async () => {
+    const eventLog: string[] = []
+    const store = createStore({
+      modules: {
+        testModule: {
+          namespaced: true,
+          actions: {
+            fetchAction: makeDelayedAction(eventLog, 'F', 10),
+            saveAction: makeDelayedAction(eventLog, 'S', 10),
+          },
+        },
+      },
+      plugins: [
+        createVuexMutexPlugin({
+          enabled: true,
+          dedupe: {
+            inFlight: 'drop',
+            key: {pick: ['id']},
+            keys: [{match: 'testModule/saveAction', key: (_parsed, payload) => (payload?.force ? null : String(payload?.id))}],
+          },
+        }),
+      ],
+    }) as Store<any>
+
+    const promises = [
+      store.dispatch('testModule/fetchAction', {id: 1, locale: 'de'}),
+      store.dispatch('testModule/fetchAction', {id: 1, locale: 'en'}), // dropped (only `id` counts)
+      store.dispatch('testModule/saveAction', {id: 1}),
+      store.dispatch('testModule/saveAction', {id: 1, force: true}), // key null → runs
+    ]
+
+    await vi.advanceTimersByTimeAsync(30)
+    await Promise.all(promises)
+
+    expect(eventLog).toEqual(['F:start:0', 'F:end:10', 'S:start:10', 'S:end:20', 'S:start:20', 'S:end:30'])
+  })
+
+  it('rules: the first matching rule decides dedupe modes per action', async () => {
+    const eventLog: string[] = []
+    const store = createStore({
+      modules: {
+        user: {
+          namespaced: true,
+          actions: {fetchProfile: makeDelayedAction(eventLog, 'F', 10)},
+        },
+        deal: {
+          namespaced: true,
+          actions: {save: makeDelayedAction(eventLog, 'S', 10)},
+        },
+      },
+      plugins: [
+        createVuexMutexPlugin({
+          enabled: true,
+          rules: [
+            {match: 'user/fetch*', inFlight: 'share', quickRepeat: 'drop'},
+            {match: 'deal/save', inFlight: 'block', quickRepeat: 'block'},
+            {match: /./, inFlight: 'warn'}, // never reached for the two actions above
+          ],
+        }),
+      ],
+    }) as Store<any>
+
+    const promiseOfFetch1 = store.dispatch('user/fetchProfile')
+    const promiseOfFetch2 = store.dispatch('user/fetchProfile') // shared
+    const promiseOfSave = store.dispatch('deal/save')
+    expect(() => store.dispatch('deal/save')).toThrow(/blocked duplicate/i)
+
+    await vi.advanceTimersByTimeAsync(10)
+    await Promise.all([promiseOfFetch1, promiseOfFetch2, promiseOfSave])
+
+    expect(eventLog).toEqual(['F:start:0', 'S:start:0', 'F:end:10', 'S:end:10'])
+  })
+
+  it('rules: lock false skips the mutex but keeps dedupe; noDedupe still applies on top', async () => {
+    const eventLog: string[] = []
+    const store = createStore({
+      modules: {
+        testModule: {
+          namespaced: true,
+          actions: {
+            readAction: makeDelayedAction(eventLog, 'R', 10),
+            writeAction: makeDelayedAction(eventLog, 'W', 10),
+          },
+        },
+      },
+      plugins: [
+        createVuexMutexPlugin({
+          enabled: true,
+          rules: [{match: 'testModule/readAction', lock: false, inFlight: 'drop'}],
+          noDedupe: ['testModule/writeAction'],
+          dedupe: {inFlight: 'drop'},
+        }),
+      ],
+    }) as Store<any>
+
+    const promises = [
+      store.dispatch('testModule/readAction', {id: 1}),
+      store.dispatch('testModule/readAction', {id: 1}), // dropped
+      store.dispatch('testModule/readAction', {id: 2}), // parallel (no lock)
+      store.dispatch('testModule/writeAction', {id: 1}),
+      store.dispatch('testModule/writeAction', {id: 1}), // not deduped, serialized
+    ]
+
+    await vi.advanceTimersByTimeAsync(20)
+    await Promise.all(promises)
+
+    expect(eventLog).toEqual(['R:start:0', 'R:start:0', 'W:start:0', 'R:end:10', 'R:end:10', 'W:end:10', 'W:start:10', 'W:end:20'])
+  })
+
+  it('lockKey: lock groups span namespaces and payload-derived keys run concurrently', async () => {
+    const eventLog: string[] = []
+    const store = createStore({
+      modules: {
+        cart: {
+          namespaced: true,
+          actions: {add: makeDelayedAction(eventLog, 'C', 10)},
+        },
+        checkout: {
+          namespaced: true,
+          actions: {pay: makeDelayedAction(eventLog, 'P', 10)},
+        },
+        deal: {
+          namespaced: true,
+          actions: {save: async (_context, payload: {dealId: number}) => makeDelayedAction(eventLog, `D${payload.dealId}`, 10)()},
+        },
+      },
+      plugins: [
+        createVuexMutexPlugin({
+          enabled: true,
+          noDedupe: [/./],
+          rules: [
+            {match: [/^cart\//, /^checkout\//], lockKey: 'checkout'},
+            {match: 'deal/save', lockKey: (_parsed, payload) => `deal/save:${payload.dealId}`},
+          ],
+        }),
+      ],
+    }) as Store<any>
+
+    const promises = [
+      store.dispatch('cart/add'),
+      store.dispatch('checkout/pay'), // waits for cart/add (same lock group)
+      store.dispatch('deal/save', {dealId: 1}),
+      store.dispatch('deal/save', {dealId: 2}), // different deal → concurrent
+      store.dispatch('deal/save', {dealId: 1}), // same deal → waits
+    ]
+
+    await vi.advanceTimersByTimeAsync(20)
+    await Promise.all(promises)
+
+    // Order within the same millisecond may vary → compare as a set of "label:phase:time" entries
+    expect([...eventLog].sort()).toEqual(['C:start:0', 'C:end:10', 'P:start:10', 'P:end:20', 'D1:start:0', 'D1:end:10', 'D1:start:10', 'D1:end:20', 'D2:start:0', 'D2:end:10'].sort())
+  })
+
+  it('lockKey: action scope lets different actions of one namespace run concurrently', async () => {
+    const eventLog: string[] = []
+    const store = createStore({
+      modules: {
+        testModule: {
+          namespaced: true,
+          actions: {
+            testAction1: makeDelayedAction(eventLog, 'A1', 10),
+            testAction2: makeDelayedAction(eventLog, 'A2', 10),
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, lockKey: 'action'})],
+    }) as Store<any>
+
+    const promiseOfAction1 = store.dispatch('testModule/testAction1')
+    const promiseOfAction2 = store.dispatch('testModule/testAction2')
+    await vi.advanceTimersByTimeAsync(10)
+    await Promise.all([promiseOfAction1, promiseOfAction2])
+
+    expect(eventLog).toEqual(['A1:start:0', 'A2:start:0', 'A1:end:10', 'A2:end:10'])
+  })
+
+  it('readers: read actions run concurrently, writers get exclusive access', async () => {
+    const eventLog: string[] = []
+    const store = createStore({
+      modules: {
+        testModule: {
+          namespaced: true,
+          actions: {
+            fetchA: makeDelayedAction(eventLog, 'RA', 10),
+            fetchB: makeDelayedAction(eventLog, 'RB', 10),
+            save: makeDelayedAction(eventLog, 'W', 10),
+            fetchC: makeDelayedAction(eventLog, 'RC', 10),
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, readers: ['testModule/fetch*'], rules: [{match: 'testModule/fetchC', access: 'read'}]})],
+    }) as Store<any>
+
+    const promises = [
+      store.dispatch('testModule/fetchA'),
+      store.dispatch('testModule/fetchB'), // shares with fetchA
+      store.dispatch('testModule/save'), // waits for both readers
+      store.dispatch('testModule/fetchC'), // queued behind the writer (writer preference)
+    ]
+
+    await vi.advanceTimersByTimeAsync(30)
+    await Promise.all(promises)
+
+    expect(eventLog).toEqual(['RA:start:0', 'RB:start:0', 'RA:end:10', 'RB:end:10', 'W:start:10', 'W:end:20', 'RC:start:20', 'RC:end:30'])
+  })
+
+  it('maxConcurrent: allows up to N executions per lock key and queues the rest', async () => {
+    const eventLog: string[] = []
+    const store = createStore({
+      modules: {
+        images: {
+          namespaced: true,
+          actions: {
+            upload: async (_context, payload: {id: number}) => makeDelayedAction(eventLog, `U${payload.id}`, 10)(),
+            cleanup: makeDelayedAction(eventLog, 'C', 10),
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, rules: [{match: 'images/upload', maxConcurrent: 2}]})],
+    }) as Store<any>
+
+    const promises = [
+      store.dispatch('images/upload', {id: 1}),
+      store.dispatch('images/upload', {id: 2}),
+      store.dispatch('images/upload', {id: 3}), // third slot → waits
+      store.dispatch('images/cleanup'), // exclusive writer of the namespace → waits for all uploads
+    ]
+
+    await vi.advanceTimersByTimeAsync(30)
+    await Promise.all(promises)
+
+    // Order within the same millisecond may vary → compare as a set of "label:phase:time" entries
+    expect([...eventLog].sort()).toEqual(['U1:start:0', 'U2:start:0', 'U1:end:10', 'U2:end:10', 'U3:start:10', 'U3:end:20', 'C:start:20', 'C:end:30'].sort())
+  })
+
+  it('maxConcurrent: rejects invalid limits when the plugin is created', () => {
+    expect(() => createVuexMutexPlugin({enabled: true, rules: [{match: 'images/upload', maxConcurrent: 0}]})).toThrow(/maxConcurrent must be a positive integer/)
+  })
+
+  it('priority: higher-priority dispatches jump ahead of queued lower-priority ones', async () => {
+    const eventLog: string[] = []
+    const store = createStore({
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {
+            prefetch: async (_context, payload: {id: number}) => makeDelayedAction(eventLog, `P${payload.id}`, 10)(),
+            save: makeDelayedAction(eventLog, 'S', 10),
+            open: makeDelayedAction(eventLog, 'O', 10),
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, rules: [{match: 'deal/open', priority: 5}]})],
+    }) as Store<any>
+
+    const promises = [
+      store.dispatch('deal/prefetch', {id: 1}), // runs first (lock is free)
+      store.dispatch('deal/prefetch', {id: 2}),
+      store.dispatch('deal/prefetch', {id: 3}),
+      store.dispatch('deal/open'), // rule priority 5
+      store.dispatch('deal/save', undefined, {priority: 10}), // per-dispatch priority 10
+    ]
+
+    await vi.advanceTimersByTimeAsync(50)
+    await Promise.all(promises)
+
+    const starts = eventLog.filter((entry) => entry.includes(':start')).map((entry) => entry.split(':')[0])
+    expect(starts).toEqual(['P1', 'S', 'O', 'P2', 'P3'])
+  })
+
+  it('object-style dispatch: options do not count as the payload for lock and dedupe keys', async () => {
+    const eventLog: string[] = []
+    const lockKeyPayloads: unknown[] = []
+    const store = createStore({
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {
+            save: async (_context, payload: {dealId: number}) => {
+              await makeDelayedAction(eventLog, `D${payload.dealId}`, 10)()
+              return payload.dealId
+            },
+          },
+        },
+      },
+      plugins: [
+        createVuexMutexPlugin({
+          enabled: true,
+          dedupe: {inFlight: 'share'},
+          rules: [
+            {
+              match: 'deal/save',
+              lockKey: (_parsed, payload) => {
+                lockKeyPayloads.push(payload)
+                return `deal/save:${payload.dealId}`
+              },
+            },
+          ],
+        }),
+      ],
+    }) as Store<any>
+
+    const promiseOfDeal1 = store.dispatch({type: 'deal/save', dealId: 1}, {priority: 1})
+    const promiseOfDeal2 = store.dispatch({type: 'deal/save', dealId: 2}, {priority: 1}) // different deal → neither shared nor queued
+    await vi.advanceTimersByTimeAsync(10)
+
+    await expect(Promise.all([promiseOfDeal1, promiseOfDeal2])).resolves.toEqual([1, 2])
+    expect(lockKeyPayloads).toEqual([{dealId: 1}, {dealId: 2}])
+    expect(eventLog).toEqual(['D1:start:0', 'D2:start:0', 'D1:end:10', 'D2:end:10'])
+  })
+
+  it('maxWaitMillis: a queued dispatch times out with a typed error and leaves the queue', async () => {
+    const eventLog: string[] = []
+    const store = createStore({
+      modules: {
+        testModule: {
+          namespaced: true,
+          actions: {
+            slowAction: makeDelayedAction(eventLog, 'SLOW', 100),
+            fetchAction: makeDelayedAction(eventLog, 'F', 10),
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, dedupe: {inFlight: 'share'}, rules: [{match: 'testModule/fetchAction', maxWaitMillis: 50}]})],
+    }) as Store<any>
+
+    const promiseOfSlow = store.dispatch('testModule/slowAction')
+    const promiseOfFetch = store.dispatch('testModule/fetchAction', {id: 1})
+    const rejection = expect(promiseOfFetch).rejects.toBeInstanceOf(QueueTimeoutError)
+
+    await vi.advanceTimersByTimeAsync(50)
+    await rejection
+    await expect(promiseOfFetch).rejects.toMatchObject({fullType: 'testModule/fetchAction', mutexKey: 'testModule/', maxWaitMillis: 50})
+
+    // The timed-out dispatch is no longer in flight → an identical dispatch queues anew instead of sharing it
+    const promiseOfRetry = store.dispatch('testModule/fetchAction', {id: 1}, {maxWaitMillis: 1000})
+    await vi.advanceTimersByTimeAsync(60)
+    await Promise.all([promiseOfSlow, promiseOfRetry])
+
+    expect(eventLog).toEqual(['SLOW:start:0', 'SLOW:end:100', 'F:start:100', 'F:end:110'])
+  })
+
+  it('signal: aborting a queued dispatch rejects it before it starts', async () => {
+    const eventLog: string[] = []
+    const store = createStore({
+      modules: {
+        testModule: {
+          namespaced: true,
+          actions: {
+            slowAction: makeDelayedAction(eventLog, 'SLOW', 50),
+            fetchAction: makeDelayedAction(eventLog, 'F', 10),
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true})],
+    }) as Store<any>
+
+    const controller = new AbortController()
+    const promiseOfSlow = store.dispatch('testModule/slowAction')
+    const promiseOfFetch = store.dispatch('testModule/fetchAction', undefined, {signal: controller.signal})
+    const rejection = expect(promiseOfFetch).rejects.toBeInstanceOf(DispatchAbortedError)
+
+    await vi.advanceTimersByTimeAsync(10)
+    controller.abort('navigated away')
+    await rejection
+    await expect(promiseOfFetch).rejects.toMatchObject({reason: 'navigated away'})
+
+    // Already aborted signals never queue
+    await expect(store.dispatch('testModule/fetchAction', undefined, {signal: controller.signal})).rejects.toBeInstanceOf(DispatchAbortedError)
+
+    await vi.advanceTimersByTimeAsync(40)
+    await promiseOfSlow
+    expect(eventLog).toEqual(['SLOW:start:0', 'SLOW:end:50'])
+  })
+
+  it('maxRunMillis: reports a stuck action and force-releases its lock when configured', async () => {
+    const eventLog: string[] = []
+    const stuckEvents: StuckActionEvent[] = []
+    const store = createStore({
+      modules: {
+        testModule: {
+          namespaced: true,
+          actions: {
+            hungAction: () => new Promise<void>(() => {}), // never settles
+            nextAction: makeDelayedAction(eventLog, 'N', 10),
+          },
+        },
+      },
+      plugins: [
+        createVuexMutexPlugin({
+          enabled: true,
+          maxRunMillis: 100,
+          releaseWhenStuck: true,
+          onStuck: (event) => stuckEvents.push(event),
+        }),
+      ],
+    }) as Store<any>
+
+    const promiseOfHung = store.dispatch('testModule/hungAction')
+    const rejection = expect(promiseOfHung).rejects.toBeInstanceOf(ActionStuckError)
+    const promiseOfNext = store.dispatch('testModule/nextAction')
+
+    await vi.advanceTimersByTimeAsync(100)
+    await rejection
+    await vi.advanceTimersByTimeAsync(10)
+    await promiseOfNext
+
+    expect(stuckEvents).toEqual([{dispatchId: '01', fullType: 'testModule/hungAction', mutexKey: 'testModule/', startedAt: 0, runMillis: 100, released: true}])
+    expect(eventLog).toEqual(['N:start:100', 'N:end:110'])
+  })
+
+  it('maxRunMillis: report-only mode keeps the lock held', async () => {
+    const stuckEvents: StuckActionEvent[] = []
+    const store = createStore({
+      modules: {
+        testModule: {
+          namespaced: true,
+          actions: {slowAction: makeDelayedAction([], 'S', 300)},
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, rules: [{match: /./, maxRunMillis: 100}], onStuck: (event) => stuckEvents.push(event)})],
+    }) as Store<any>
+
+    const promiseOfSlow = store.dispatch('testModule/slowAction')
+    await vi.advanceTimersByTimeAsync(300)
+    await expect(promiseOfSlow).resolves.toBeUndefined()
+
+    expect(stuckEvents).toHaveLength(1)
+    expect(stuckEvents[0]).toMatchObject({fullType: 'testModule/slowAction', released: false})
+  })
+
+  it('latest: newer dispatches of an action supersede queued ones and signal the running one', async () => {
+    const eventLog: string[] = []
+    const store: Store<any> = createStore({
+      modules: {
+        search: {
+          namespaced: true,
+          actions: {
+            query: async (_context: unknown, text: string) => {
+              const signal = getActionSignal(store)!
+              eventLog.push(`${text}:start:${Date.now()}`)
+              await new Promise<void>((r) => setTimeout(r, 50))
+              eventLog.push(`${text}:end:${Date.now()}${signal.aborted ? ':aborted' : ''}`)
+              return text.toUpperCase()
+            },
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, rules: [{match: 'search/query', inFlight: 'latest', latestBy: 'action', abortSuperseded: true}]})],
+    })
+
+    const promiseOfA = store.dispatch('search/query', 'a')
+    await vi.advanceTimersByTimeAsync(10)
+    const promiseOfAb = store.dispatch('search/query', 'ab')
+    const promiseOfAbc = store.dispatch('search/query', 'abc')
+
+    await vi.advanceTimersByTimeAsync(90)
+    // The superseded caller gets the newest result, the running one keeps its own
+    expect(await Promise.all([promiseOfA, promiseOfAb, promiseOfAbc])).toEqual(['A', 'ABC', 'ABC'])
+    expect(eventLog).toEqual(['a:start:0', 'a:end:50:aborted', 'abc:start:50', 'abc:end:100'])
+  })
+
+  it('latest: superseding is per dedupe key by default and can reject the discarded callers', async () => {
+    const eventLog: string[] = []
+    const store = createStore({
+      modules: {
+        testModule: {
+          namespaced: true,
+          actions: {
+            slowAction: makeDelayedAction(eventLog, 'SLOW', 50),
+            fetchAction: (_context: unknown, payload: {id: number}) => makeDelayedAction(eventLog, `F${payload.id}`, 10)(),
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, dedupe: {inFlight: 'latest', superseded: 'reject'}})],
+    }) as Store<any>
+
+    const promiseOfSlow = store.dispatch('testModule/slowAction')
+    const promiseOfFirst = store.dispatch('testModule/fetchAction', {id: 1})
+    const promiseOfOther = store.dispatch('testModule/fetchAction', {id: 2})
+    const promiseOfLatest = store.dispatch('testModule/fetchAction', {id: 1})
+    const rejection = expect(promiseOfFirst).rejects.toBeInstanceOf(DispatchSupersededError)
+
+    await vi.advanceTimersByTimeAsync(70)
+    await rejection
+    await expect(promiseOfFirst).rejects.toMatchObject({dispatchId: '02', supersededBy: '04', mutexKey: 'testModule/'})
+    await Promise.all([promiseOfSlow, promiseOfOther, promiseOfLatest])
+
+    expect(eventLog).toEqual(['SLOW:start:0', 'SLOW:end:50', 'F2:start:50', 'F2:end:60', 'F1:start:60', 'F1:end:70'])
+  })
+
+  it('quickRepeat debounce: repeats run once after they stop, with the last payload', async () => {
+    const eventLog: string[] = []
+    const store = createStore({
+      modules: {
+        filters: {
+          namespaced: true,
+          actions: {
+            apply: async (_context: unknown, payload: {q: string}) => {
+              await makeDelayedAction(eventLog, payload.q, 10)()
+              return payload.q
+            },
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, rules: [{match: 'filters/apply', quickRepeat: 'debounce', thresholdMillis: 100, key: () => 'all'}]})],
+    }) as Store<any>
+
+    const promiseOfFirst = store.dispatch('filters/apply', {q: 'a'})
+    await vi.advanceTimersByTimeAsync(20)
+    const promiseOfSecond = store.dispatch('filters/apply', {q: 'ab'})
+    await vi.advanceTimersByTimeAsync(30)
+    const promiseOfThird = store.dispatch('filters/apply', {q: 'abc'})
+    await vi.advanceTimersByTimeAsync(110)
+
+    expect(await Promise.all([promiseOfFirst, promiseOfSecond, promiseOfThird])).toEqual(['a', 'abc', 'abc'])
+    expect(eventLog).toEqual(['a:start:0', 'a:end:10', 'abc:start:150', 'abc:end:160'])
+  })
+
+  it('quickRepeat throttle: at most one run per window, extra calls share the scheduled run', async () => {
+    const eventLog: string[] = []
+    const store = createStore({
+      modules: {
+        filters: {
+          namespaced: true,
+          actions: {
+            apply: async (_context: unknown, payload: {q: string}) => {
+              await makeDelayedAction(eventLog, payload.q, 10)()
+              return payload.q
+            },
+            slowAction: makeDelayedAction(eventLog, 'SLOW', 30),
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, rules: [{match: 'filters/apply', quickRepeat: 'throttle', thresholdMillis: 100, key: () => 'all'}]})],
+    }) as Store<any>
+
+    const promiseOfFirst = store.dispatch('filters/apply', {q: 'a'})
+    await vi.advanceTimersByTimeAsync(20)
+    const promiseOfSecond = store.dispatch('filters/apply', {q: 'ab'})
+    await vi.advanceTimersByTimeAsync(30)
+    const promiseOfThird = store.dispatch('filters/apply', {q: 'abc'})
+    // The scheduled run still queues behind other actions of the namespace
+    await vi.advanceTimersByTimeAsync(50)
+    const promiseOfSlow = store.dispatch('filters/slowAction')
+    await vi.advanceTimersByTimeAsync(100)
+
+    expect(await Promise.all([promiseOfFirst, promiseOfSecond, promiseOfThird])).toEqual(['a', 'abc', 'abc'])
+    await promiseOfSlow
+    // Scheduled for 110 (100 ms after the last finish, not after the last call), started once SLOW released the lock
+    expect(eventLog).toEqual(['a:start:0', 'a:end:10', 'SLOW:start:100', 'SLOW:end:130', 'abc:start:130', 'abc:end:140'])
+  })
+
+  it('cache: quick-repeat share settles with the last result until it expires', async () => {
+    let calls = 0
+    const store = createStore({
+      modules: {
+        user: {
+          namespaced: true,
+          actions: {
+            fetchProfile: async () => {
+              calls += 1
+              await new Promise<void>((r) => setTimeout(r, 10))
+              return {calls}
+            },
+            failingAction: async () => {
+              calls += 1
+              throw new Error(`failure ${calls}`)
+            },
+            retriedAction: async () => {
+              calls += 1
+              throw new Error(`failure ${calls}`)
+            },
+          },
+        },
+      },
+      plugins: [
+        createVuexMutexPlugin({
+          enabled: true,
+          dedupe: {quickRepeat: 'share', thresholdMillis: 100, cache: {ttlMillis: 50}},
+          rules: [{match: 'user/retriedAction', cache: {cacheFailures: false}}],
+        }),
+      ],
+    }) as Store<any>
+
+    const promiseOfFirst = store.dispatch('user/fetchProfile')
+    await vi.advanceTimersByTimeAsync(10)
+    await expect(promiseOfFirst).resolves.toEqual({calls: 1})
+    // Within the window and the TTL → the cached result, no second execution
+    await expect(store.dispatch('user/fetchProfile')).resolves.toEqual({calls: 1})
+    // Still within the window but older than the TTL → runs again
+    await vi.advanceTimersByTimeAsync(60)
+    const promiseOfRepeat = store.dispatch('user/fetchProfile')
+    await vi.advanceTimersByTimeAsync(10)
+    await expect(promiseOfRepeat).resolves.toEqual({calls: 2})
+
+    // Failures are replayed unless cacheFailures is false
+    await expect(store.dispatch('user/failingAction')).rejects.toThrow('failure 3')
+    await expect(store.dispatch('user/failingAction')).rejects.toThrow('failure 3')
+    await expect(store.dispatch('user/retriedAction')).rejects.toThrow('failure 4')
+    await expect(store.dispatch('user/retriedAction')).rejects.toThrow('failure 5')
+  })
+
+  it('cache: stale-while-revalidate returns the cached result and refreshes in the background', async () => {
+    let calls = 0
+    const store = createStore({
+      modules: {
+        catalog: {
+          namespaced: true,
+          actions: {
+            load: async () => {
+              calls += 1
+              await new Promise<void>((r) => setTimeout(r, 10))
+              return calls
+            },
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, rules: [{match: 'catalog/load', thresholdMillis: 0, cache: {ttlMillis: 1000, staleWhileRevalidate: true}}]})],
+    }) as Store<any>
+
+    const promiseOfFirst = store.dispatch('catalog/load')
+    await vi.advanceTimersByTimeAsync(10)
+    await expect(promiseOfFirst).resolves.toBe(1)
+
+    await vi.advanceTimersByTimeAsync(100)
+    await expect(store.dispatch('catalog/load')).resolves.toBe(1)
+    await vi.advanceTimersByTimeAsync(10)
+    expect(calls).toBe(2)
+    await expect(store.dispatch('catalog/load')).resolves.toBe(2)
+
+    // Past the TTL → the caller waits for a fresh result
+    await vi.advanceTimersByTimeAsync(1100)
+    const promiseOfFresh = store.dispatch('catalog/load')
+    await vi.advanceTimersByTimeAsync(10)
+    await expect(promiseOfFresh).resolves.toBe(4)
+  })
+
+  it('events: hooks and subscribers receive structured lifecycle events', async () => {
+    const events: MutexEvent[] = []
+    const finished: string[] = []
+    const plugin = createVuexMutexPlugin({
+      enabled: true,
+      dedupe: {inFlight: 'share'},
+      onFinish: ({dispatchId, status}) => finished.push(`${dispatchId}:${status}`),
+    })
+    const store = createStore({
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {
+            save: makeDelayedAction([], 'S', 10),
+            failingAction: async () => {
+              throw new Error('API failure')
+            },
+          },
+        },
+      },
+      plugins: [plugin],
+    }) as Store<any>
+    const unsubscribe = plugin.subscribe((event) => events.push(event))
+
+    const promiseOfSave = store.dispatch('deal/save', {id: 7})
+    const promiseOfShared = store.dispatch('deal/save', {id: 7})
+    const promiseOfFailure = store.dispatch('deal/failingAction')
+    await vi.advanceTimersByTimeAsync(10)
+    await Promise.all([promiseOfSave, promiseOfShared, expect(promiseOfFailure).rejects.toThrow('API failure')])
+
+    expect(events.map(({type, dispatchId}) => `${type}:${dispatchId}`)).toEqual([
+      'queued:01',
+      'dedupe:02',
+      'queued:03',
+      'start:01',
+      'finish:01',
+      'start:03',
+      'error:03',
+      'finish:03',
+    ])
+    expect(events[0]).toEqual({type: 'queued', dispatchId: '01', parentId: null, fullType: 'deal/save', namespace: 'deal/', mutexKey: 'deal/', dedupeKey: 'deal/|save|payload={"id":7}', at: 0, access: 'write', priority: 0})
+    expect(events[1]).toMatchObject({type: 'dedupe', phase: 'IN-FLIGHT', mode: 'share', deltaMillis: null})
+    expect(events[4]).toMatchObject({type: 'finish', status: 'ok', waitMillis: 0, runMillis: 10, totalMillis: 10})
+    expect(events[5]).toMatchObject({type: 'start', waitMillis: 10, locked: true})
+    expect(finished).toEqual(['01:ok', '03:error'])
+
+    unsubscribe()
+    await store.dispatch('deal/failingAction').catch(() => {})
+    expect(events).toHaveLength(8)
+    expect(finished).toEqual(['01:ok', '03:error', '04:error'])
+  })
+
+  it('logger: routes logs through a custom logger with a minimum level and throttle window', async () => {
+    const lines: string[] = []
+    const store = createStore({
+      modules: {
+        testModule: {
+          namespaced: true,
+          actions: {testAction: makeDelayedAction([], 'A', 10)},
+        },
+      },
+      plugins: [
+        createVuexMutexPlugin({
+          enabled: true,
+          debug: true,
+          dedupe: {inFlight: 'warn'},
+          logger: createPlainLogger({write: (line) => lines.push(line)}),
+          logLevel: 'info',
+          logThrottleMillis: 1000,
         }),
       ],
     }) as Store<any>
 
-    // Start first execution, then advance timers, then await it
-    const promiseOfActionInTestModule = store.dispatch('testModule/testAction', {testPayloadProperty: 1})
-    await vi.runOnlyPendingTimersAsync() // +10ms -> completes first call
-    await promiseOfActionInTestModule
+    const promises = [store.dispatch('testModule/testAction'), store.dispatch('testModule/testAction'), store.dispatch('testModule/testAction')]
+    await vi.advanceTimersByTimeAsync(30)
+    await Promise.all(promises)
 
-    // Immediate repeat (0ms < 100ms window) -> dropped (resolves immediately to undefined)
-    const result = await store.dispatch('testModule/testAction', {testPayloadProperty: 1})
-    expect(result).toBeUndefined()
-  }, 1000)
+    // Debug trace lines (QUEUED/START/DONE) are below 'info'; the duplicate warning is throttled to one line
+    expect(lines).toEqual([
+      '[vuex-mutex] WARN [IN-FLIGHT] action="testModule/testAction" — identical execution is already queued (+1 queued) → starting another execution (duplicate)',
+    ])
+  })
+
+  it('getVuexMutex: snapshot, health and resetStats work without debug', async () => {
+    const store = createStore({
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {
+            save: makeDelayedAction([], 'S', 10),
+            failingAction: async () => {
+              throw new Error('API failure')
+            },
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, dedupe: {inFlight: 'warn'}})],
+    }) as Store<any>
+    const mutex = getVuexMutex(store)!
+    expect(getVuexMutex(createStore({}))).toBeUndefined()
+
+    const promiseOfFirst = store.dispatch('deal/save', {id: 1})
+    await vi.advanceTimersByTimeAsync(5)
+    const promiseOfSecond = store.dispatch('deal/save', {id: 2})
+    await Promise.resolve()
+
+    expect(mutex.snapshot()).toEqual({
+      at: 5,
+      locks: [
+        {
+          mutexKey: 'deal/',
+          running: [{dispatchId: '01', fullType: 'deal/save', mutexKey: 'deal/', dedupeKey: 'deal/|save|payload={"id":1}', access: 'write', priority: 0, queuedAt: 0, startedAt: 0, reentrant: false}],
+          queued: [{dispatchId: '02', fullType: 'deal/save', mutexKey: 'deal/', dedupeKey: 'deal/|save|payload={"id":2}', access: 'write', priority: 0, queuedAt: 5, startedAt: null, reentrant: false}],
+        },
+      ],
+      unlocked: [],
+      inFlightKeys: ['deal/|save|payload={"id":1}', 'deal/|save|payload={"id":2}'],
+    })
+    expect(mutex.health()).toEqual({totalStarted: 2, totalDone: 0, totalSucceeded: 0, totalErrored: 0, totalRetried: 0, pendingIds: ['01', '02']})
+
+    await vi.advanceTimersByTimeAsync(20)
+    await Promise.all([promiseOfFirst, promiseOfSecond])
+    await expect(store.dispatch('deal/failingAction')).rejects.toThrow('API failure')
+
+    expect(mutex.snapshot()).toMatchObject({locks: [], unlocked: [], inFlightKeys: []})
+    expect(mutex.health()).toEqual({totalStarted: 3, totalDone: 3, totalSucceeded: 2, totalErrored: 1, totalRetried: 0, pendingIds: []})
+
+    const promiseOfThird = store.dispatch('deal/save', {id: 3})
+    mutex.resetStats()
+    expect(mutex.health()).toEqual({totalStarted: 1, totalDone: 0, totalSucceeded: 0, totalErrored: 0, totalRetried: 0, pendingIds: ['04']})
+    await vi.advanceTimersByTimeAsync(10)
+    await promiseOfThird
+    expect(mutex.health()).toMatchObject({totalStarted: 1, totalDone: 1, totalSucceeded: 1})
+  })
+
+  it('deadlock: a cross-namespace cycle is detected and the newest dispatch rejected', async () => {
+    const store = createStore({
+      modules: {
+        cart: {
+          namespaced: true,
+          actions: {
+            checkout: async ({dispatch}) => {
+              await new Promise<void>((r) => setTimeout(r, 10))
+              await dispatch('user/refresh', null, {root: true})
+            },
+            recalculate: () => {},
+          },
+        },
+        user: {
+          namespaced: true,
+          actions: {
+            login: async ({dispatch}) => {
+              await new Promise<void>((r) => setTimeout(r, 20))
+              await dispatch('cart/recalculate', null, {root: true})
+            },
+            refresh: () => {},
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, deadlock: 'reject'})],
+    }) as Store<any>
+
+    const promiseOfCheckout = store.dispatch('cart/checkout')
+    const promiseOfLogin = store.dispatch('user/login')
+    const rejection = promiseOfLogin.catch((error) => error)
+    await vi.advanceTimersByTimeAsync(20)
+
+    // user/login → cart/recalculate would wait for cart/, held by cart/checkout, which waits for user/
+    const error = await rejection
+    expect(error).toBeInstanceOf(DeadlockError)
+    expect(error).toMatchObject({dispatchId: '04', fullType: 'cart/recalculate', mutexKey: 'cart/'})
+    expect(error.cycle).toEqual([
+      {dispatchId: '04', fullType: 'cart/recalculate', mutexKey: 'cart/', relation: 'waits-for'},
+      {dispatchId: '01', fullType: 'cart/checkout', mutexKey: 'cart/', relation: 'holds'},
+      {dispatchId: '03', fullType: 'user/refresh', mutexKey: 'user/', relation: 'waits-for'},
+      {dispatchId: '02', fullType: 'user/login', mutexKey: 'user/', relation: 'holds'},
+    ])
+    expect(error.message).toContain('#04 cart/recalculate waits for "cart/" → #01 cart/checkout holds "cart/" → #03 user/refresh waits for "user/" → #02 user/login holds "user/"')
+
+    // user/login failed and released user/ → the checkout completes
+    await expect(promiseOfCheckout).resolves.toBeUndefined()
+  })
+
+  it('deadlock: a cycle through this.dispatch (before the first await) is detected', async () => {
+    const store = createStore({
+      modules: {
+        cart: {
+          namespaced: true,
+          actions: {
+            checkout: async ({dispatch}) => {
+              await new Promise<void>((r) => setTimeout(r, 10))
+              await dispatch('user/refresh', null, {root: true})
+            },
+            recalculate: () => {},
+          },
+        },
+        user: {
+          namespaced: true,
+          actions: {
+            async login(this: Store<any>) {
+              await this.dispatch('cart/recalculate')
+            },
+            refresh: () => {},
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, deadlock: 'reject'})],
+    }) as Store<any>
+
+    const promiseOfCheckout = store.dispatch('cart/checkout')
+    const promiseOfLogin = store.dispatch('user/login') // cart/recalculate waits for cart/ on behalf of user/login
+    const rejection = promiseOfCheckout.catch((error) => error)
+    await vi.advanceTimersByTimeAsync(10)
+
+    const error = await rejection
+    expect(error).toBeInstanceOf(DeadlockError)
+    expect(error.cycle).toEqual([
+      {dispatchId: '04', fullType: 'user/refresh', mutexKey: 'user/', relation: 'waits-for'},
+      {dispatchId: '02', fullType: 'user/login', mutexKey: 'user/', relation: 'holds'},
+      {dispatchId: '03', fullType: 'cart/recalculate', mutexKey: 'cart/', relation: 'waits-for'},
+      {dispatchId: '01', fullType: 'cart/checkout', mutexKey: 'cart/', relation: 'holds'},
+    ])
+
+    // cart/checkout failed and released cart/ → the login completes
+    await expect(promiseOfLogin).resolves.toBeUndefined()
+  })
+
+  it('deadlock: a dispatch with a free maxConcurrent slot is not part of a cycle', async () => {
+    const eventLog: string[] = []
+    const store = createStore({
+      modules: {
+        images: {
+          namespaced: true,
+          actions: {
+            process: async ({dispatch}) => {
+              await new Promise<void>((r) => setTimeout(r, 10))
+              await dispatch('user/refresh', null, {root: true})
+            },
+            thumb: makeDelayedAction(eventLog, 'T', 5),
+          },
+        },
+        user: {
+          namespaced: true,
+          actions: {
+            login: async ({dispatch}) => {
+              await new Promise<void>((r) => setTimeout(r, 20))
+              await dispatch('images/thumb', null, {root: true})
+            },
+            refresh: () => {},
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, deadlock: 'reject', rules: [{match: /^images\//, maxConcurrent: 3}]})],
+    }) as Store<any>
+
+    const promises = [store.dispatch('images/process'), store.dispatch('user/login')]
+    await vi.advanceTimersByTimeAsync(25)
+
+    // images/thumb takes the second of three slots of images/ (held by images/process) → starts right away
+    await expect(Promise.all(promises)).resolves.toEqual([undefined, undefined])
+    expect(eventLog).toEqual(['T:start:20', 'T:end:25'])
+  })
+
+  it('deadlock: logs the cycle, or lets the newest dispatch run without its lock', async () => {
+    const lines: string[] = []
+    const createCrossStore = (deadlock: 'log' | 'reenter') =>
+      createStore({
+        modules: {
+          cart: {
+            namespaced: true,
+            actions: {
+              checkout: async ({dispatch}) => {
+                await new Promise<void>((r) => setTimeout(r, 10))
+                await dispatch('user/refresh', null, {root: true})
+              },
+              recalculate: () => 'recalculated',
+            },
+          },
+          user: {
+            namespaced: true,
+            actions: {
+              login: async ({dispatch}) => {
+                await new Promise<void>((r) => setTimeout(r, 20))
+                return dispatch('cart/recalculate', null, {root: true})
+              },
+              refresh: () => {},
+            },
+          },
+        },
+        plugins: [createVuexMutexPlugin({enabled: true, deadlock, maxWaitMillis: 100, logger: createPlainLogger({write: (line) => lines.push(line)})})],
+      }) as Store<any>
+
+    const escaping = createCrossStore('reenter')
+    const promises = [escaping.dispatch('cart/checkout'), escaping.dispatch('user/login')]
+    await vi.advanceTimersByTimeAsync(20)
+    await expect(Promise.all(promises)).resolves.toEqual([undefined, 'recalculated'])
+    expect(lines).toEqual([expect.stringMatching(/^\[vuex-mutex\] WARN \[#04\] ⚠ DEADLOCK cart\/recalculate \(mutexKey: cart\/\) → running without its lock: #04 cart\/recalculate waits for "cart\/" → .* → #02 user\/login holds "user\/"$/)])
+
+    // 'log' only reports it: both stay stuck until user/refresh gives up waiting, which frees cart/ for the login
+    lines.length = 0
+    const logging = createCrossStore('log')
+    const outcomes = Promise.allSettled([logging.dispatch('cart/checkout'), logging.dispatch('user/login')])
+    await vi.advanceTimersByTimeAsync(200)
+    expect(lines[0]).toContain('⚠ DEADLOCK cart/recalculate (mutexKey: cart/) → queued anyway')
+    expect((await outcomes).map(({status}) => status)).toEqual(['rejected', 'fulfilled'])
+  })
+
+  it('whenIdle: resolves once the store or a namespace has settled', async () => {
+    const store = createStore({
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {save: makeDelayedAction([], 'S', 10)},
+        },
+        user: {
+          namespaced: true,
+          actions: {load: makeDelayedAction([], 'L', 30), search: makeDelayedAction([], 'Q', 5)},
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, rules: [{match: 'user/search', quickRepeat: 'debounce'}]})],
+    }) as Store<any>
+    const settled: string[] = []
+    await whenIdle(store) // nothing pending
+
+    store.dispatch('deal/save')
+    store.dispatch('deal/save', {id: 2})
+    store.dispatch('user/load')
+    whenIdle(store, {namespace: 'deal'}).then(() => settled.push(`deal:${Date.now()}`))
+    whenIdle(store).then(() => settled.push(`store:${Date.now()}`))
+
+    await vi.advanceTimersByTimeAsync(30)
+    expect(settled).toEqual(['deal:20', 'store:30'])
+
+    // A scheduled debounce run keeps the namespace busy until it has run
+    store.dispatch('user/search')
+    await vi.advanceTimersByTimeAsync(5)
+    store.dispatch('user/search')
+    whenIdle(store, {namespace: 'user/'}).then(() => settled.push(`user:${Date.now()}`))
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(settled).toEqual(['deal:20', 'store:30', 'user:540'])
+  })
+
+  it('whenIdle: a timeout reports the dispatches still pending', async () => {
+    const store = createStore({
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {save: makeDelayedAction([], 'S', 100)},
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true})],
+    }) as Store<any>
+
+    store.dispatch('deal/save', {id: 1})
+    store.dispatch('deal/save', {id: 2})
+    const idle = whenIdle(store, {timeoutMillis: 50}).catch((error) => error)
+    await vi.advanceTimersByTimeAsync(50)
+
+    const error = await idle
+    expect(error).toBeInstanceOf(IdleTimeoutError)
+    expect(error.pending).toEqual([
+      {dispatchId: '01', fullType: 'deal/save', mutexKey: 'deal/', queuedAt: 0, startedAt: 0},
+      {dispatchId: '02', fullType: 'deal/save', mutexKey: 'deal/', queuedAt: 0, startedAt: null},
+    ])
+    expect(error.message).toBe('[vuex-mutex][IDLE-TIMEOUT] store → still busy after 50 ms: #01 deal/save (running 50 ms), #02 deal/save (queued 50 ms)')
+    await vi.advanceTimersByTimeAsync(150)
+  })
 
   // D) noDedupe: drive timers in two steps so the second action's timer fires ---
   it('noDedupe: duplicates run (no dedupe), still serialized within the namespace', async () => {
@@ -270,7 +1352,7 @@ describe('vuex-mutex plugin (per-module serialization)', () => {
           actions: {saveAction: makeDelayedAction(eventLog, 'S', 10)},
         },
       },
-      plugins: [createVuexMutexPlugin({noDedupe: ['testModule/saveAction']})],
+      plugins: [createVuexMutexPlugin({enabled: true, noDedupe: ['testModule/saveAction']})],
     }) as Store<any>
 
     const promiseOfActionInTestModule1_1 = store.dispatch('testModule/saveAction', {testPayloadProperty: 1})
@@ -317,7 +1399,7 @@ describe('vuex-mutex plugin (per-module serialization)', () => {
           },
         },
       },
-      plugins: [createVuexMutexPlugin()],
+      plugins: [createVuexMutexPlugin({enabled: true})],
     }) as Store<any>
 
     const promiseOfActionInTestModule = store.dispatch('testModule/outerAction')
@@ -327,6 +1409,260 @@ describe('vuex-mutex plugin (per-module serialization)', () => {
     expect(order).toEqual(['outer:start', 'inner:start:0', 'inner:end:10', 'outer:end'])
   })
 
+  it('reentrancy: nested dispatch after an await is still recognized via the action context', async () => {
+    const order: string[] = []
+    const store = createStore({
+      modules: {
+        testModule: {
+          namespaced: true,
+          actions: {
+            outerAction: async ({dispatch}) => {
+              order.push('outer:start')
+              await new Promise<void>((r) => setTimeout(r, 10))
+              await dispatch('innerAction')
+              order.push('outer:end')
+            },
+            innerAction: makeDelayedAction(order, 'inner', 10),
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true})],
+    }) as Store<any>
+
+    const promiseOfActionInTestModule = store.dispatch('testModule/outerAction')
+    await vi.advanceTimersByTimeAsync(20)
+    await promiseOfActionInTestModule
+
+    expect(order).toEqual(['outer:start', 'inner:start:10', 'inner:end:20', 'outer:end'])
+  })
+
+  it('reentrancy: outside dispatch into a busy namespace queues instead of running in parallel', async () => {
+    const eventLog: string[] = []
+    const store = createStore({
+      modules: {
+        testModule: {
+          namespaced: true,
+          actions: {
+            testAction1: makeDelayedAction(eventLog, 'A1', 50),
+            testAction2: makeDelayedAction(eventLog, 'A2', 50),
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true})],
+    }) as Store<any>
+
+    const promiseOfAction1 = store.dispatch('testModule/testAction1')
+    await vi.advanceTimersByTimeAsync(10) // A1 is running now
+
+    // Dispatched from "a component" (no action context) → must wait for A1
+    const promiseOfAction2 = store.dispatch('testModule/testAction2')
+    await vi.advanceTimersByTimeAsync(40)
+    await promiseOfAction1
+    await vi.advanceTimersByTimeAsync(50)
+    await promiseOfAction2
+
+    expect(eventLog).toEqual(['A1:start:0', 'A1:end:50', 'A2:start:50', 'A2:end:100'])
+  })
+
+  it('reentrancy: nested root-level dispatch goes through the plugin and does not deadlock', async () => {
+    const order: string[] = []
+    const store = createStore({
+      actions: {
+        outerAction: async ({dispatch}) => {
+          order.push('outer:start')
+          await dispatch('innerAction')
+          order.push('outer:end')
+        },
+        innerAction: makeDelayedAction(order, 'inner', 10),
+      },
+      plugins: [createVuexMutexPlugin({enabled: true})],
+    }) as Store<any>
+
+    const promiseOfOuterAction = store.dispatch('outerAction')
+    await vi.advanceTimersByTimeAsync(10)
+    await promiseOfOuterAction
+
+    expect(order).toEqual(['outer:start', 'inner:start:0', 'inner:end:10', 'outer:end'])
+  })
+
+  it('reentrancy: this.dispatch (the store) before the first await is nested in the calling action', async () => {
+    const order: string[] = []
+    const store = createStore({
+      modules: {
+        testModule: {
+          namespaced: true,
+          actions: {
+            async outerAction(this: Store<any>) {
+              order.push('outer:start')
+              await this.dispatch('testModule/innerAction')
+              order.push('outer:end')
+            },
+            innerAction: makeDelayedAction(order, 'inner', 10),
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true})],
+    }) as Store<any>
+
+    const promiseOfOuterAction = store.dispatch('testModule/outerAction')
+    await vi.advanceTimersByTimeAsync(10)
+    await promiseOfOuterAction
+
+    expect(order).toEqual(['outer:start', 'inner:start:0', 'inner:end:10', 'outer:end'])
+  })
+
+  it('keeps locks and dedupe state per store when one plugin instance is shared', async () => {
+    const eventLog: string[] = []
+    const plugin = createVuexMutexPlugin({enabled: true, dedupe: {inFlight: 'share'}})
+    const createTestStore = (label: string) =>
+      createStore({
+        modules: {
+          testModule: {
+            namespaced: true,
+            actions: {testAction: makeDelayedAction(eventLog, label, 50)},
+          },
+        },
+        plugins: [plugin],
+      }) as Store<any>
+
+    const storeA = createTestStore('A')
+    const storeB = createTestStore('B')
+
+    // Same action + payload in two stores: neither shares the other's promise nor waits for its mutex
+    const promiseOfStoreA = storeA.dispatch('testModule/testAction', {id: 1})
+    const promiseOfStoreB = storeB.dispatch('testModule/testAction', {id: 1})
+
+    await vi.advanceTimersByTimeAsync(50)
+    await Promise.all([promiseOfStoreA, promiseOfStoreB])
+
+    expect(eventLog).toEqual(['A:start:0', 'B:start:0', 'A:end:50', 'B:end:50'])
+  })
+
+  it('retry: a failed action runs again after a backoff while holding the lock; shared callers get the final outcome', async () => {
+    const eventLog: string[] = []
+    const events: MutexEvent[] = []
+    let attempts = 0
+    const plugin = createVuexMutexPlugin({
+      enabled: true,
+      dedupe: {inFlight: 'share'},
+      rules: [{match: 'deal/save', retry: {retries: 3, delayMillis: 10, jitter: 0}}],
+    })
+    plugin.subscribe((event) => events.push(event))
+    const store = createStore({
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {
+            save: async () => {
+              attempts += 1
+              eventLog.push(`save:start:${Date.now()}`)
+              await new Promise<void>((r) => setTimeout(r, 5))
+              if (attempts < 3) {
+                throw new Error(`API failure ${attempts}`)
+              }
+              return 'saved'
+            },
+            load: makeDelayedAction(eventLog, 'load', 5),
+          },
+        },
+      },
+      plugins: [plugin],
+    }) as Store<any>
+
+    const promiseOfSave = store.dispatch('deal/save', {id: 1})
+    const promiseOfShared = store.dispatch('deal/save', {id: 1})
+    const promiseOfLoad = store.dispatch('deal/load')
+    await vi.advanceTimersByTimeAsync(50)
+
+    await expect(promiseOfSave).resolves.toBe('saved')
+    await expect(promiseOfShared).resolves.toBe('saved')
+    await promiseOfLoad
+    // Backoff 10 ms, then 20 ms; deal/load waits until the retries are done
+    expect(eventLog).toEqual(['save:start:0', 'save:start:15', 'save:start:40', 'load:start:45', 'load:end:50'])
+    expect(events.filter(({dispatchId}) => dispatchId === '01').map(({type}) => type)).toEqual(['queued', 'start', 'retry', 'retry', 'finish'])
+    expect(events.find(({type}) => type === 'retry')).toMatchObject({attempt: 1, retries: 3, delayMillis: 10, error: new Error('API failure 1')})
+    expect(getVuexMutex(store)!.health()).toMatchObject({totalStarted: 2, totalDone: 2, totalErrored: 0, totalRetried: 2})
+  })
+
+  it("retry: lock 'release' lets the queue run during the backoff; retryIf stops on other errors", async () => {
+    const eventLog: string[] = []
+    let attempts = 0
+    const store = createStore({
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {
+            save: async () => {
+              attempts += 1
+              eventLog.push(`save:start:${Date.now()}`)
+              await new Promise<void>((r) => setTimeout(r, 5))
+              throw new Error(attempts === 1 ? 'timeout' : 'validation')
+            },
+            load: makeDelayedAction(eventLog, 'load', 5),
+          },
+        },
+      },
+      plugins: [
+        createVuexMutexPlugin({
+          enabled: true,
+          rules: [{match: 'deal/save', retry: {retries: 3, delayMillis: 10, jitter: 0, lock: 'release', retryIf: (error) => String(error).includes('timeout')}}],
+        }),
+      ],
+    }) as Store<any>
+
+    const promiseOfSave = store.dispatch('deal/save')
+    const promiseOfLoad = store.dispatch('deal/load')
+    const expectation = expect(promiseOfSave).rejects.toThrow('validation')
+    await vi.advanceTimersByTimeAsync(5)
+    expect(getVuexMutex(store)!.snapshot().locks[0]!.running).toMatchObject([{fullType: 'deal/load'}])
+    await vi.advanceTimersByTimeAsync(20)
+    await expectation
+    await promiseOfLoad
+
+    expect(eventLog).toEqual(['save:start:0', 'load:start:5', 'load:end:10', 'save:start:15'])
+    expect(getVuexMutex(store)!.health()).toMatchObject({totalStarted: 2, totalDone: 2, totalErrored: 1, totalRetried: 1})
+  })
+
+  it("retry: lock 'release' waits for the lock again with the caller's signal and maxWaitMillis", async () => {
+    let attempts = 0
+    const store = createStore({
+      modules: {
+        deal: {
+          namespaced: true,
+          actions: {
+            save: async () => {
+              attempts += 1
+              await new Promise<void>((r) => setTimeout(r, 5))
+              throw new Error('timeout')
+            },
+            load: makeDelayedAction([], 'load', 100),
+          },
+        },
+      },
+      plugins: [createVuexMutexPlugin({enabled: true, noDedupe: ['deal/save'], rules: [{match: 'deal/save', retry: {retries: 3, delayMillis: 10, jitter: 0, lock: 'release'}}]})],
+    }) as Store<any>
+
+    // Aborted during the backoff → rejected at once, no further attempt
+    const controller = new AbortController()
+    const promiseOfAborted = store.dispatch('deal/save', undefined, {signal: controller.signal})
+    const abortion = expect(promiseOfAborted).rejects.toBeInstanceOf(DispatchAbortedError)
+    await vi.advanceTimersByTimeAsync(8)
+    controller.abort()
+    await abortion
+    expect(attempts).toBe(1)
+
+    // Waiting again for the lock (held by deal/load) is limited by maxWaitMillis
+    attempts = 0
+    const promiseOfTimedOut = store.dispatch('deal/save', undefined, {maxWaitMillis: 20})
+    const promiseOfLoad = store.dispatch('deal/load')
+    const timeout = expect(promiseOfTimedOut).rejects.toBeInstanceOf(QueueTimeoutError)
+    await vi.advanceTimersByTimeAsync(35) // fails after 5 ms, backs off 10 ms, then waits 20 ms behind deal/load
+    await timeout
+    expect(attempts).toBe(1)
+    await vi.advanceTimersByTimeAsync(70)
+    await promiseOfLoad
+  })
+
   // F) Root namespace: actions without a module should be serialized together under a single mutex
   it('root actions (no module) are serialized together', async () => {
     const t: string[] = []
@@ -335,7 +1671,7 @@ describe('vuex-mutex plugin (per-module serialization)', () => {
         testAction1: makeDelayedAction(t, 'R1', 10),
         testAction2: makeDelayedAction(t, 'R2', 10),
       },
-      plugins: [createVuexMutexPlugin()],
+      plugins: [createVuexMutexPlugin({enabled: true})],
     }) as Store<any>
 
     const promiseOfAction1 = store.dispatch('testAction1')